@@ -0,0 +1,94 @@
+// scripts/check-scam-rules.ts
+// Real pages and addresses the scam detector must get right: ordinary sites that happen to look like a bank's
+// name or mention gift cards must stay quiet, and genuine scam pages must still be stopped.
+// Not part of the extension. Run it after changing the detector or src/assets/scam-rules.json (or before
+// publishing new rules from the backend, saved over that file):
+//   npx esbuild scripts/check-scam-rules.ts --bundle --platform=node --log-level=error | node
+
+import { detectScamSignals, type ScamPageSnapshot, type ScamRiskLevel } from "~lib/scam-detector"
+import { BUNDLED_SCAM_RULES, type ScamRuleSet } from "~lib/scam-rules"
+
+interface ScamFixture {
+  name: string
+  page: ScamPageSnapshot
+  expected: ScamRiskLevel
+}
+
+function page(url: string, text: string, hasPasswordField = false): ScamPageSnapshot {
+  return { url, title: "", text, hasPasswordField }
+}
+
+const SCAM_FIXTURES: ScamFixture[] = [
+  // One letter away from a trusted name, but real, unrelated sites
+  { name: "discovery.com is not discover.com", page: page("https://www.discovery.com/", "Shows and schedules"), expected: "none" },
+  { name: "legions.com is not regions.com", page: page("https://www.legions.com/", "Legions game guides"), expected: "none" },
+  { name: "trust.com is not truist.com", page: page("https://www.trust.com/", "Keyboards, mice and headsets"), expected: "none" },
+  { name: "paypay.ne.jp is not paypal.com", page: page("https://paypay.ne.jp/", "スマホ決済 PayPay"), expected: "none" },
+
+  // A trusted name inside a longer, real address, or a brand's own site on another ending
+  { name: "google-analytics.com", page: page("https://www.google-analytics.com/", "Analytics"), expected: "none" },
+  { name: "apple-recipes.com", page: page("https://apple-recipes.com/", "Apple pie and crumble recipes"), expected: "none" },
+  { name: "amazon-adsystem.com", page: page("https://aax.amazon-adsystem.com/", ""), expected: "none" },
+  { name: "chase-the-sun.com", page: page("https://chase-the-sun.com/", "Travel blog"), expected: "none" },
+  { name: "amazon.jobs", page: page("https://www.amazon.jobs/", "Find jobs at Amazon"), expected: "none" },
+  { name: "google.dev", page: page("https://google.dev/", "Google for Developers"), expected: "none" },
+
+  // Everyday shop wording about gift cards
+  {
+    name: "checkout listing gift cards among payment methods",
+    page: page("https://shop.example.com/checkout", "Payment methods: credit card, gift card, PayPal. Pay with a gift card at checkout."),
+    expected: "none"
+  },
+  {
+    name: "gift card shop",
+    page: page("https://shop.example.com/gift-cards", "Buy gift cards for friends and family. Send the perfect present by email."),
+    expected: "none"
+  },
+
+  // A single strong sign is mentioned in the chat, never used to block the page
+  {
+    name: "one fake virus message alone",
+    page: page("https://news.example.com/", "Your computer has been infected? How to spot fake alerts"),
+    expected: "caution"
+  },
+
+  // Real scams
+  {
+    name: "tech support scam asking for gift cards",
+    page: page(
+      "https://pc-alert.example.net/",
+      "Your computer is infected! Call Microsoft support at 1-888-555-0100. Payment must be made with Google Play cards."
+    ),
+    expected: "danger"
+  },
+  {
+    name: "typo of paypal.com asking for a password",
+    page: page("https://paypai.com/signin", "Log in to your account", true),
+    expected: "danger"
+  },
+  {
+    name: "paypal.com spelled with a Cyrillic letter, asking for a password",
+    page: page("https://pаypal.com/signin", "Log in to your account", true),
+    expected: "danger"
+  }
+]
+
+/**
+ * Runs the fixtures against a rule set; returns one line per fixture it gets wrong (empty when all pass)
+ */
+function checkScamFixtures(rules: ScamRuleSet): string[] {
+  const failures: string[] = []
+  for (const fixture of SCAM_FIXTURES) {
+    const report = detectScamSignals(fixture.page, rules)
+    if (report.riskLevel !== fixture.expected) {
+      const signals = report.signals.map((signal) => signal.id).join(", ") || "no signals"
+      failures.push(`${fixture.name}: expected ${fixture.expected}, got ${report.riskLevel} (${signals})`)
+    }
+  }
+  return failures
+}
+
+const failures = checkScamFixtures(BUNDLED_SCAM_RULES)
+failures.forEach((failure) => console.error(failure))
+console.log(`${SCAM_FIXTURES.length - failures.length} of ${SCAM_FIXTURES.length} examples pass`)
+process.exitCode = failures.length > 0 ? 1 : 0
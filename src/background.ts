@@ -1,5 +1,32 @@
 import { API_BASE_URL } from "~lib/constants"
 import { getAuthState, login, logout } from "~lib/auth-service"
+import { sendPageMessage } from "~lib/page-injection"
+import { DEFAULT_DISTILL_BUDGET } from "~lib/dom-distiller"
+import type { PiiRegionsResult } from "~lib/pii-redaction"
+import type { ElementBounds, ScopeStep, ScreenshotTarget } from "~types/conversation"
+import { isScamRuleSet, storeScamRules } from "~lib/scam-rules"
+import {
+  cropScreenshot,
+  getLastFrame,
+  processScreenshot,
+  stitchScreenshots,
+  type CapturedSlice,
+  type ScreenshotMasks,
+  type ScreenshotOptions
+} from "~lib/screenshot-processing"
+import { loadSettings } from "~lib/settings"
+import { removeTabConversation } from "~lib/tab-sessions"
+import {
+  checkTrustedLookalike,
+  escalateLookalikeAlert,
+  getInterstitialUrl,
+  getLookalikeAlert,
+  isInterstitialUrl,
+  isLookalikeAllowed,
+  raiseLookalikeAlert,
+  resolveLookalikeAlert,
+  stepPastLeftLookalike
+} from "~lib/lookalike-guard"
 
 export { }
 
@@ -306,6 +333,16 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return false
   }
 
+  if (request.action === "API_ABORT") {
+    const controller = inflightApiRequests.get(request.requestId)
+    if (controller) {
+      controller.abort()
+      inflightApiRequests.delete(request.requestId)
+    }
+    sendResponse({ success: true, aborted: Boolean(controller) })
+    return false
+  }
+
   if (request.action === "API_REQUEST") {
     handleApiRequest(request)
       .then(sendResponse)
@@ -347,7 +384,7 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   }
 
   if (request.action === "CAPTURE_SCREENSHOT") {
-    handleScreenshotCapture()
+    handleScreenshotCapture(request.screenshot, request.tabId)
       .then(sendResponse)
       .catch((err) => {
         console.error("Screenshot Error:", err)
@@ -356,9 +393,23 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true
   }
 
+  if (request.action === "CAPTURE_FULL_PAGE") {
+    handleFullPageCapture(request.screenshot, request.tabId).then(sendResponse)
+    return true
+  }
+
+  if (request.action === "CAPTURE_ELEMENT") {
+    handleElementCapture(
+      { selector: request.selector, elementRef: request.elementRef, scope: request.scope },
+      request.screenshot,
+      request.tabId
+    ).then(sendResponse)
+    return true
+  }
+
   if (request.action === "GET_HTML") {
-    // Forward request to content script in the active tab
-    handleGetHtml()
+    // Forward request to content script in the given tab (the active one by default)
+    handleGetHtml({}, request.tabId)
       .then(sendResponse)
       .catch((err) => {
         console.error("HTML Extraction Error:", err)
@@ -382,7 +433,12 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   }
 
   if (request.action === "CAPTURE_ALL") {
-    handleCaptureAll()
+    handleCaptureAll(
+      { sessionId: request.sessionId, delta: request.delta },
+      request.screenshot,
+      request.capture,
+      request.tabId
+    )
       .then(sendResponse)
       .catch((err) => {
         console.error("Capture All Error:", err)
@@ -402,30 +458,91 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   }
 })
 
-async function handleScreenshotCapture() {
+// The tab a request is about: the one a chat task was bound to when given, otherwise the one on screen.
+// A bound tab that has since been closed resolves to undefined rather than falling back to another tab.
+async function resolveTargetTab(tabId?: number): Promise<chrome.tabs.Tab | undefined> {
+  if (typeof tabId === "number") {
+    return chrome.tabs.get(tabId).catch(() => undefined)
+  }
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  return tab
+}
+
+// captureVisibleTab photographs whatever its window is showing, so a tab in the background can't be captured
+const BACKGROUND_TAB_ERROR = "The task's tab isn't the one on screen, so it can't be photographed"
+
+// Asks the page where personal details are showing. Pages the runtime can't reach (browser pages,
+// the web store) have nothing of the user's to hide; any other failure returns null so the caller withholds the image.
+async function findPiiRegions(tabId: number, url: string | undefined): Promise<ScreenshotMasks | null> {
+  if (!/^https?:/.test(url || "")) {
+    return { regions: [], sensitiveFields: [], viewportWidth: 0 }
+  }
   try {
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    const response = await sendPageMessage<PiiRegionsResult>(tabId, { action: "FIND_PII_REGIONS" })
+    if (response?.success) {
+      return { regions: response.regions, sensitiveFields: response.sensitiveFields, viewportWidth: response.viewport.width }
+    }
+    console.error("PII scan failed:", response?.message)
+  } catch (error) {
+    console.error("PII scan failed:", error)
+  }
+  return null
+}
+
+// Chrome allows only a couple of captures per second; a frame of the same page this recent stands in when over
+const STALE_FRAME_MAX_AGE_MS = 3000
+// Spacing between captureVisibleTab calls that keeps us under that limit
+const CAPTURE_INTERVAL_MS = 550
+let lastCaptureAt = 0
+
+async function captureVisibleTabPaced(windowId: number): Promise<string> {
+  const wait = lastCaptureAt + CAPTURE_INTERVAL_MS - Date.now()
+  if (wait > 0) await delay(wait)
+  lastCaptureAt = Date.now()
+  return chrome.tabs.captureVisibleTab(windowId, { format: "png" })
+}
+
+async function handleScreenshotCapture(options?: Partial<ScreenshotOptions>, tabId?: number) {
+  try {
+    const tab = await resolveTargetTab(tabId)
     if (!tab?.id) {
-      console.error("Screenshot: No active tab found")
+      console.error("Screenshot: No tab found")
       return { success: false, error: "No active tab found" }
     }
+    if (!tab.active) {
+      return { success: false, error: BACKGROUND_TAB_ERROR }
+    }
 
     if (!tab.windowId) {
       console.error("Screenshot: Tab has no windowId")
       return { success: false, error: "Tab has no window ID" }
     }
 
+    // Locate personal details on screen right before capturing, so the boxes line up with the image
+    const masks = await findPiiRegions(tab.id, tab.url)
+    if (!masks) {
+      return { success: false, error: "Couldn't check the page for personal details; screenshot withheld" }
+    }
+
     console.log("Capturing screenshot for tab:", tab.id, "window:", tab.windowId)
-    const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
-      format: "png"
-    })
+    let rawDataUrl: string
+    try {
+      rawDataUrl = await captureVisibleTabPaced(tab.windowId)
+    } catch (error) {
+      const cached = getLastFrame(tab.id, tab.url || "", STALE_FRAME_MAX_AGE_MS)
+      if (!cached) throw error
+      console.warn("Screenshot: Capture refused, reusing the last frame:", error)
+      return { success: true, data: { screenshot: cached, url: tab.url, cached: true } }
+    }
 
-    if (!dataUrl || dataUrl.length === 0) {
+    if (!rawDataUrl || rawDataUrl.length === 0) {
       console.error("Screenshot: Empty data URL returned")
       return { success: false, error: "Screenshot returned empty data" }
     }
 
-    console.log("Screenshot captured successfully, length:", dataUrl.length)
+    const dataUrl = await processScreenshot(rawDataUrl, masks, { tabId: tab.id, url: tab.url || "" }, options)
+
+    console.log("Screenshot captured successfully, length:", rawDataUrl.length, "->", dataUrl.length)
     capturedData.screenshot = dataUrl
     capturedData.url = tab.url || null
     capturedData.timestamp = Date.now()
@@ -440,9 +557,118 @@ async function handleScreenshotCapture() {
   }
 }
 
-async function handleGetHtml() {
+// ============================================
+// FULL PAGE AND ELEMENT SCREENSHOTS
+// ============================================
+
+// Slices per full-page capture; at the capture pace that's about ten seconds
+const MAX_FULL_PAGE_SLICES = 20
+
+async function getCapturableTab(tabId?: number): Promise<chrome.tabs.Tab & { id: number; windowId: number }> {
+  const tab = await resolveTargetTab(tabId)
+  if (!tab?.id || !tab.windowId) throw new Error("No active tab found")
+  if (!tab.active) throw new Error(BACKGROUND_TAB_ERROR)
+  if (!/^https?:/.test(tab.url || "")) throw new Error("This kind of page can't be captured")
+  return tab as chrome.tabs.Tab & { id: number; windowId: number }
+}
+
+/**
+ * Scrolls the page top to bottom, one viewport at a time, and stitches the captures into one image.
+ * The user's scroll position is put back afterwards.
+ */
+async function handleFullPageCapture(options?: Partial<ScreenshotOptions>, tabId?: number) {
+  try {
+    const tab = await getCapturableTab(tabId)
+    const begin = await sendPageMessage(tab.id, { action: "BEGIN_FULL_PAGE_CAPTURE" })
+    if (!begin?.success) {
+      return { success: false, error: begin?.message || "Couldn't prepare the page" }
+    }
+    const { viewport, pageHeight, truncated } = begin.metrics
+
+    const slices: CapturedSlice[] = []
+    try {
+      let lastScrollY = -1
+      for (let y = 0; y < pageHeight && slices.length < MAX_FULL_PAGE_SLICES; y += viewport.height) {
+        // Fixed headers stay in the first slice only
+        const scrolled = await sendPageMessage(tab.id, { action: "SCROLL_FOR_CAPTURE", y, hideFixed: slices.length > 0 })
+        // The page wouldn't scroll any further (inner scroll areas, locked body)
+        if (scrolled.scrollY <= lastScrollY) break
+        lastScrollY = scrolled.scrollY
+
+        const masks = await findPiiRegions(tab.id, tab.url)
+        if (!masks) throw new Error("Couldn't check the page for personal details; screenshot withheld")
+        slices.push({ raw: await captureVisibleTabPaced(tab.windowId), masks, scrollY: scrolled.scrollY })
+      }
+    } finally {
+      await sendPageMessage(tab.id, { action: "END_FULL_PAGE_CAPTURE" }).catch(() => {})
+    }
+
+    const screenshot = await stitchScreenshots(slices, pageHeight, options)
+    console.log("Full-page screenshot:", slices.length, "slices,", pageHeight, "px tall, length:", screenshot.length)
+    return { success: true, data: { screenshot, url: tab.url, truncated } }
+  } catch (error) {
+    console.error("Full-page capture error:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Full-page capture failed" }
+  }
+}
+
+/**
+ * Brings one element on screen and crops the capture to it
+ */
+async function handleElementCapture(
+  target: { selector?: string; elementRef?: string; scope?: ScopeStep[] },
+  options?: Partial<ScreenshotOptions>,
+  tabId?: number
+) {
+  try {
+    const tab = await getCapturableTab(tabId)
+    const prepared = await sendPageMessage<{ success: boolean; message: string; bounds?: ElementBounds }>(tab.id, {
+      action: "PREPARE_ELEMENT_CAPTURE",
+      ...target
+    })
+    if (!prepared?.success || !prepared.bounds) {
+      return { success: false, error: prepared?.message || "Element not found" }
+    }
+
+    const masks = await findPiiRegions(tab.id, tab.url)
+    if (!masks) {
+      return { success: false, error: "Couldn't check the page for personal details; screenshot withheld" }
+    }
+    const raw = await captureVisibleTabPaced(tab.windowId)
+    const screenshot = await cropScreenshot(raw, masks, prepared.bounds, options)
+    return { success: true, data: { screenshot, url: tab.url } }
+  } catch (error) {
+    console.error("Element capture error:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Element capture failed" }
+  }
+}
+
+/**
+ * The screenshot for a page observation. Full-page and element captures fall back to the visible area.
+ */
+async function captureForTarget(target: ScreenshotTarget | undefined, options?: Partial<ScreenshotOptions>, tabId?: number) {
+  if (target?.mode === "full_page" || target?.mode === "element") {
+    const result = target.mode === "full_page"
+      ? await handleFullPageCapture(options, tabId)
+      : await handleElementCapture({ selector: target.selector, elementRef: target.element_ref, scope: target.scope }, options, tabId)
+    if (result.success) {
+      return { ...result, mode: target.mode }
+    }
+    console.warn(`BG: ${target.mode} capture failed, sending the visible area instead:`, result.error)
+  }
+  const result = await handleScreenshotCapture(options, tabId)
+  return { ...result, mode: "viewport" as const }
+}
+
+// Lets the page runtime keep a per-session baseline and answer with only the changes
+interface DistillOptions {
+  sessionId?: string
+  delta?: boolean
+}
+
+async function handleGetHtml(options: DistillOptions = {}, tabId?: number) {
   try {
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    const tab = await resolveTargetTab(tabId)
     if (!tab?.id) {
       return { success: false, error: "No active tab found" }
     }
@@ -456,184 +682,29 @@ async function handleGetHtml() {
       return { success: false, error: "Content scripts not available on this page type" }
     }
 
-    // First, try to send message to content script (if it's already loaded)
+    // Ask the page runtime to distill; if the content script isn't loaded yet the same
+    // distiller is injected from its bundled file, so both paths return identical output
     let response
     try {
-      response = await chrome.tabs.sendMessage(tab.id, {
-        action: "DISTILL_DOM"
+      response = await sendPageMessage(tab.id, {
+        action: "DISTILL_DOM",
+        budget: DEFAULT_DISTILL_BUDGET,
+        sessionId: options.sessionId,
+        delta: options.delta
       })
-      
-      // Check for runtime errors
-      if (chrome.runtime.lastError) {
-        const errorMsg = chrome.runtime.lastError.message
-        if (errorMsg?.includes("Receiving end does not exist") ||
-            errorMsg?.includes("Could not establish connection")) {
-          // Content script not ready, fall through to executeScript
-          console.log("Content script not ready, using executeScript fallback")
-          response = null
-        } else {
-          console.error("Error sending message to content script:", errorMsg)
-          return { success: false, error: errorMsg || "Failed to communicate with content script" }
-        }
-      }
-    } catch (sendError) {
-      // Content script not loaded, fall through to executeScript
-      console.log("Content script not loaded, using executeScript fallback:", sendError)
-      response = null
+    } catch (error) {
+      console.error("Failed to distill DOM:", error)
+      return { success: false, error: error instanceof Error ? error.message : "Failed to communicate with the page" }
     }
 
-    // If sendMessage failed, use executeScript as fallback
-    if (!response) {
-      try {
-        // Use executeScript to directly inject and run the distillation code
-        // NOTE: This must be plain JavaScript, no TypeScript syntax!
-        const results = await chrome.scripting.executeScript({
-          target: { tabId: tab.id },
-          func: () => {
-            // Plain JavaScript distillation function
-            try {
-              const metaDesc = document.querySelector('meta[name="description"]')
-              
-              function extractFullText() {
-                const body = document.body
-                if (!body) return ""
-                const clone = body.cloneNode(true)
-                const removeSelectors = ["script", "style", "noscript", "svg", "iframe", "template"]
-                removeSelectors.forEach(function(sel) {
-                  clone.querySelectorAll(sel).forEach(function(el) { el.remove() })
-                })
-                const text = clone.textContent || ""
-                return text.replace(/\s+/g, " ").replace(/\n\s*\n/g, "\n").trim()
-              }
-              
-              function isElementVisible(el) {
-                const style = window.getComputedStyle(el)
-                if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") return false
-                const rect = el.getBoundingClientRect()
-                return rect.width > 0 && rect.height > 0
-              }
-              
-              function generateSelector(el) {
-                if (el.id) return "#" + el.id
-                let selector = el.tagName.toLowerCase()
-                if (el.className) {
-                  const classes = el.className.toString().split(/\s+/).filter(function(c) { return c }).slice(0, 3).join('.')
-                  if (classes) selector += "." + classes
-                }
-                return selector
-              }
-              
-              function extractElementInfo(element, index) {
-                const info = {
-                  index: index,
-                  selector: generateSelector(element),
-                  tag: element.tagName.toLowerCase(),
-                  isVisible: isElementVisible(element),
-                  isInteractive: ["A", "BUTTON", "INPUT", "SELECT", "TEXTAREA"].indexOf(element.tagName) !== -1 ||
-                                 element.getAttribute("role") === "button" ||
-                                 element.hasAttribute("tabindex")
-                }
-                
-                const directText = Array.from(element.childNodes)
-                  .filter(function(n) { return n.nodeType === Node.TEXT_NODE })
-                  .map(function(n) { return n.textContent ? n.textContent.trim() : "" })
-                  .filter(Boolean)
-                  .join(" ")
-                info.text = (directText || element.textContent || "").substring(0, 100)
-                
-                if (element.type) info.type = element.type
-                const role = element.getAttribute("role")
-                if (role) info.role = role
-                if (element.placeholder) info.placeholder = element.placeholder
-                if (element.value && element.type !== "password") {
-                  info.value = element.value.substring(0, 50)
-                }
-                const href = element.getAttribute("href")
-                if (href && href.indexOf("javascript:") !== 0) info.href = href.substring(0, 80)
-                if (element.src) info.src = element.src.substring(0, 80)
-                if (element.alt) info.alt = element.alt.substring(0, 80)
-                const ariaLabel = element.getAttribute("aria-label")
-                if (ariaLabel) info.ariaLabel = ariaLabel.substring(0, 100)
-                
-                return info
-              }
-              
-              const relevantSelector = [
-                "h1", "h2", "h3", "h4", "h5", "h6", "p", "a[href]",
-                "button", "[role='button']", "input[type='submit']", "input[type='button']",
-                "input:not([type='hidden'])", "textarea", "select",
-                "img[alt]", "img[src]", "nav", "[role='navigation']",
-                "main", "article", "[role='main']", "form",
-                "header", "footer", "aside", "[role='banner']", "[role='search']", "[role='contentinfo']",
-                "label", "ul", "ol", "table"
-              ].join(", ")
-              
-              const allElements = document.querySelectorAll(relevantSelector)
-              const seenElements = new Set()
-              const sortedElements = Array.from(allElements).sort(function(a, b) {
-                const position = a.compareDocumentPosition(b)
-                if (position & Node.DOCUMENT_POSITION_FOLLOWING) return -1
-                if (position & Node.DOCUMENT_POSITION_PRECEDING) return 1
-                return 0
-              })
-              
-              const elements = []
-              let index = 0
-              const summary = { totalElements: 0, interactiveElements: 0, headings: 0, links: 0, buttons: 0, inputs: 0, images: 0 }
-              
-              for (let i = 0; i < sortedElements.length; i++) {
-                const element = sortedElements[i]
-                if (seenElements.has(element)) continue
-                seenElements.add(element)
-                if (!isElementVisible(element)) continue
-                
-                const info = extractElementInfo(element, index)
-                elements.push(info)
-                index++
-                
-                const tag = element.tagName.toLowerCase()
-                if (["h1", "h2", "h3", "h4", "h5", "h6"].indexOf(tag) !== -1) summary.headings++
-                else if (tag === "a") summary.links++
-                else if (tag === "button" || element.getAttribute("role") === "button") summary.buttons++
-                else if (["input", "textarea", "select"].indexOf(tag) !== -1) summary.inputs++
-                else if (tag === "img") summary.images++
-                if (info.isInteractive) summary.interactiveElements++
-              }
-              
-              summary.totalElements = elements.length
-              
-              return {
-                success: true,
-                message: "Distilled " + summary.totalElements + " elements",
-                data: {
-                  url: window.location.href,
-                  title: document.title,
-                  metaDescription: metaDesc ? metaDesc.content : null,
-                  fullText: extractFullText(),
-                  timestamp: new Date().toISOString(),
-                  viewport: { width: window.innerWidth, height: window.innerHeight },
-                  summary: summary,
-                  elements: elements
-                }
-              }
-            } catch (error) {
-              return {
-                success: false,
-                message: error ? (error.message || String(error)) : "Failed to distill DOM"
-              }
-            }
-          }
-        })
-        
-        if (results && results[0]?.result) {
-          response = results[0].result
-        } else {
-          return { success: false, error: "executeScript returned no result" }
-        }
-      } catch (scriptError) {
-        console.error("executeScript failed:", scriptError)
-        return { success: false, error: scriptError instanceof Error ? scriptError.message : "Failed to execute script" }
-      }
+    if (response?.success && response?.delta) {
+      console.log("Captured page delta:", {
+        added: response.delta.added.length,
+        removed: response.delta.removed.length,
+        omitted: response.delta.omitted.length,
+        changed: response.delta.changed.length
+      })
+      return { success: true, data: { pageDelta: response.delta, url: tab.url } }
     }
 
     if (response?.success && response?.data) {
@@ -652,9 +723,39 @@ async function handleGetHtml() {
   }
 }
 
-async function handleCaptureAll() {
-  const screenshotResult = await handleScreenshotCapture()
-  const domResult = await handleGetHtml()
+async function handleGetAccessibilityTree(tabId?: number) {
+  try {
+    const tab = await resolveTargetTab(tabId)
+    if (!tab?.id) {
+      return { success: false, error: "No active tab found" }
+    }
+
+    const response = await sendPageMessage(tab.id, { action: "SNAPSHOT_ACCESSIBILITY" })
+    if (response?.success && response?.data) {
+      return { success: true, data: response.data }
+    }
+    return { success: false, error: response?.message || "Accessibility snapshot failed" }
+  } catch (error) {
+    // Optional extra context; the distilled DOM is still sent without it
+    console.warn("Accessibility snapshot unavailable:", error)
+    return { success: false, error: error instanceof Error ? error.message : "Accessibility snapshot failed" }
+  }
+}
+
+async function handleCaptureAll(
+  options: DistillOptions = {},
+  screenshotOptions?: Partial<ScreenshotOptions>,
+  target?: ScreenshotTarget,
+  tabId?: number
+) {
+  // A task running in a tab the user has left still gets its page read, just without a picture
+  const screenshotResult = await captureForTarget(target, screenshotOptions, tabId)
+  const domResult = await handleGetHtml(options, tabId)
+  const pageDelta = domResult.success && domResult.data?.pageDelta ? domResult.data.pageDelta : null
+  // Only worth asking for when the page runtime answered with a full snapshot
+  const accessibilityResult = domResult.success && !pageDelta
+    ? await handleGetAccessibilityTree(tabId)
+    : { success: false, data: null }
 
   console.log("handleCaptureAll results:", {
     screenshotSuccess: screenshotResult.success,
@@ -662,6 +763,7 @@ async function handleCaptureAll() {
     screenshotLength: screenshotResult.data?.screenshot?.length || 0,
     domSuccess: domResult.success,
     hasDistilledDOM: !!domResult.data?.distilledDOM,
+    hasPageDelta: !!pageDelta,
     distilledDOMType: typeof domResult.data?.distilledDOM,
     elementCount: domResult.data?.distilledDOM?.elements?.length || 0
   })
@@ -675,6 +777,8 @@ async function handleCaptureAll() {
     ? domResult.data.distilledDOM
     : null
 
+  const accessibilityTree = accessibilityResult.success ? accessibilityResult.data : null
+
   const url = domResult.data?.url || screenshotResult.data?.url || capturedData.url || null
 
   // Update capturedData for consistency
@@ -694,14 +798,20 @@ async function handleCaptureAll() {
     data: {
       screenshot: screenshot,
       distilledDOM: distilledDOM,
+      screenshotMode: screenshot ? screenshotResult.mode : null,
+      accessibilityTree: accessibilityTree,
+      pageDelta: pageDelta,
       url: url,
       timestamp: capturedData.timestamp
     }
   }
 }
 
+// Fetches that the side panel may still cancel, keyed by the requestId it sent
+const inflightApiRequests = new Map<string, AbortController>()
+
 async function handleApiRequest(request: any) {
-  const { endpoint, method = "GET", body, headers = {} } = request
+  const { endpoint, method = "GET", body, headers = {}, requestId } = request
 
   // Construct full URL
   // Ensure endpoint starts with / if not present, but avoid double //
@@ -735,9 +845,15 @@ async function handleApiRequest(request: any) {
     }
   }
 
+  const controller = new AbortController()
+  if (requestId) {
+    inflightApiRequests.set(requestId, controller)
+  }
+
   const options: RequestInit = {
     method,
-    headers: requestHeaders
+    headers: requestHeaders,
+    signal: controller.signal
   }
 
   if (body) {
@@ -769,13 +885,106 @@ async function handleApiRequest(request: any) {
       data
     }
   } catch (error) {
+    if (controller.signal.aborted) {
+      return { success: false, error: "Request cancelled", cancelled: true }
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : "Network error"
     }
+  } finally {
+    if (requestId) {
+      inflightApiRequests.delete(requestId)
+    }
+  }
+}
+
+// Scam rules ship with the extension; pick up a newer set from the backend when there is one.
+// Failures are fine: the bundled or previously stored rules keep working offline.
+async function refreshScamRules() {
+  const result = await handleApiRequest({ endpoint: "/api/scam-rules" })
+  if (!result.success || !isScamRuleSet(result.data)) return
+  if (await storeScamRules(result.data)) {
+    console.log("BG: Scam rules updated to version", result.data.version)
   }
 }
 
+chrome.runtime.onInstalled.addListener(() => {
+  refreshScamRules()
+})
+chrome.runtime.onStartup.addListener(() => {
+  refreshScamRules()
+})
+
+// Check every address a tab moves to against the user's trusted sites, as soon as it starts loading.
+// A deliberate copy is swapped for the warning page, a similar address is flagged in the side panel; either
+// way the assistant is stopped until the user decides.
+async function checkTabForLookalike(tabId: number, url: string) {
+  // The warning page stands in for the flagged one; its alert stays pending behind it
+  if (isInterstitialUrl(url)) return
+
+  const settings = await loadSettings()
+  const lookalike = checkTrustedLookalike(url, settings.trustedSites)
+  if (await stepPastLeftLookalike(tabId, lookalike?.host)) return
+  const pending = await getLookalikeAlert(tabId)
+
+  if (!lookalike || (await isLookalikeAllowed(lookalike.host))) {
+    // Moved on from a flagged page without answering the warning
+    if (pending) await resolveLookalikeAlert(tabId, "left")
+    return
+  }
+  // Back on the flagged page before answering (browser Back, reload): warn again without a second log entry
+  if (pending?.host === lookalike.host) {
+    if (pending.blocking) await chrome.tabs.update(tabId, { url: getInterstitialUrl({ url }) })
+    return
+  }
+  if (pending) await resolveLookalikeAlert(tabId, "left")
+
+  console.warn("BG: Lookalike of", lookalike.trusted, "in tab", tabId, lookalike.host)
+  await raiseLookalikeAlert({
+    ...lookalike,
+    id: crypto.randomUUID(),
+    tabId,
+    detectedAt: new Date().toISOString(),
+    outcome: "pending"
+  })
+  if (lookalike.blocking) await chrome.tabs.update(tabId, { url: getInterstitialUrl(lookalike) })
+}
+
+// A similar-looking address only gets the side-panel warning, until its page turns out to ask for a password
+async function checkLookalikeLogin(tabId: number) {
+  const pending = await getLookalikeAlert(tabId)
+  if (!pending || pending.blocking) return
+  const [probe] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: () => document.querySelector("input[type='password']") !== null
+  }).catch(() => [])
+  if (!probe?.result) return
+  const alert = await escalateLookalikeAlert(tabId)
+  if (alert) await chrome.tabs.update(tabId, { url: getInterstitialUrl(alert) })
+}
+
+// One check at a time per tab: redirects and quick successive loads would otherwise both find no pending
+// alert and log the same page twice
+const lookalikeChecks = new Map<number, Promise<void>>()
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  const url = changeInfo.url
+  if (!url && changeInfo.status !== "complete") return
+  const check = (lookalikeChecks.get(tabId) ?? Promise.resolve())
+    .then(() => (url ? checkTabForLookalike(tabId, url) : checkLookalikeLogin(tabId)))
+    .catch((error) => console.error("BG: Lookalike check failed:", error))
+  lookalikeChecks.set(tabId, check)
+  check.finally(() => {
+    if (lookalikeChecks.get(tabId) === check) lookalikeChecks.delete(tabId)
+  })
+})
+chrome.tabs.onRemoved.addListener((tabId) => {
+  resolveLookalikeAlert(tabId, "left").catch(() => {})
+  // A closed tab's conversation can't be returned to
+  removeTabConversation(tabId)
+})
+
 // Gumloop Help Request Handler
 const GUMLOOP_API_URL = "https://api.gumloop.com/api/v1/start_pipeline"
 const GUMLOOP_USER_ID = "IWTnzQ7ln9P4Ui3yZZS4mdnByAw1"
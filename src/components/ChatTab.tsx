@@ -3,7 +3,26 @@
 
 import { useState, useRef, useEffect, useCallback } from "react"
 import { sendConversationMessage, getCurrentPageState, getConversation } from "~lib/conversation-api"
-import type { ChatMessage, ConversationAction, ChatState, ConversationMessage } from "~types/conversation"
+import { getLookalikeAlert } from "~lib/lookalike-guard"
+import { sendPageMessage } from "~lib/page-injection"
+import type { ConsentHandledMessage } from "~lib/consent-handler"
+import type { ScamWarningMessage } from "~lib/scam-detector"
+import { loadSettings, subscribeToSettings } from "~lib/settings"
+import { isSamePage, loadTabConversation, saveTabConversation, type TabConversation } from "~lib/tab-sessions"
+import { checkNavigationAllowed, navigateAndWait, waitForTabComplete } from "~lib/tab-navigation"
+import type {
+  ActionResult,
+  CaptureScreenshotAction,
+  ChatMessage,
+  ConversationAction,
+  ChatState,
+  ConversationMessage,
+  NavigateBackAction,
+  NavigateToAction,
+  ReloadAction,
+  ScreenshotTarget,
+  WaitForAction
+} from "~types/conversation"
 
 const PENDING_SESSION_KEY = "pending_session_id"
 const START_NEW_CONVERSATION_KEY = "start_new_conversation"
@@ -11,10 +30,57 @@ const ACTIVE_CHAT_SESSION_KEY = "active_chat_session_id"
 
 const HANDS_FREE_SEGMENT_MS = 7000
 
+// Before each observation, wait until the page has stopped changing for this long (up to the timeout)
+const PAGE_SETTLE_QUIET_MS = 500
+const PAGE_SETTLE_TIMEOUT_MS = 3000
+
+// A page load this soon after a task ends still counts as the assistant's doing (its last click opening a page)
+const AGENT_NAVIGATION_GRACE_MS = 5000
+
+// Spoken commands that stop a running task in hands-free mode ("stop", "please cancel", ...)
+const STOP_COMMAND_PATTERN = /^\s*(?:please\s+)?(?:stop|cancel|halt|quit)\b/i
+
+// Spoken answers to a step approval card
+const YES_COMMAND_PATTERN = /^\s*(?:yes|yeah|yep|ok(?:ay)?|sure|go ahead|do it)\b/i
+const NO_COMMAND_PATTERN = /^\s*(?:no|nope|skip|don't|do not)\b/i
+
+// Actions that change the page on the user's behalf and so need approval in step-by-step mode
+const STEP_APPROVAL_ACTIONS: ConversationAction["action_type"][] = [
+  "click", "fill_form", "select_dropdown", "toggle_checkbox", "choose_radio", "set_date", "choose_option",
+  "press_key", "navigate_back", "navigate_to", "reload"
+]
+
 function generateId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
+// Resolves after ms, or early if the task is cancelled
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort)
+      resolve()
+    }, ms)
+    const handleAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+  })
+}
+
+// Resolves once the task is cancelled (never, without a signal)
+function whenAborted(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) resolve()
+    else signal?.addEventListener("abort", () => resolve(), { once: true })
+  })
+}
+
 function generateRecordingId(): string {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
     return crypto.randomUUID()
@@ -29,6 +95,8 @@ function ActionBadge({ action }: { action: ConversationAction }) {
         return { icon: "touch_app", label: "Click", color: "bg-orange-100 dark:bg-orange-900" }
       case "wait":
         return { icon: "hourglass_empty", label: `Wait ${action.duration}ms`, color: "bg-purple-100 dark:bg-purple-900" }
+      case "wait_for":
+        return { icon: "hourglass_top", label: `Wait for ${action.condition.replace(/_/g, " ")}`, color: "bg-purple-100 dark:bg-purple-900" }
       case "message":
         return { icon: "chat", label: "Message", color: "bg-blue-100 dark:bg-blue-900" }
       case "complete":
@@ -51,6 +119,24 @@ function ActionBadge({ action }: { action: ConversationAction }) {
         return { icon: "cleaning_services", label: "Clean Page", color: "bg-lime-100 dark:bg-lime-900" }
       case "restore_clutter":
         return { icon: "restore", label: "Restore", color: "bg-gray-100 dark:bg-gray-700" }
+      case "toggle_checkbox":
+        return { icon: "check_box", label: action.checked === false ? "Untick" : "Tick", color: "bg-teal-100 dark:bg-teal-900" }
+      case "choose_radio":
+        return { icon: "radio_button_checked", label: action.value ? `Choose ${action.value}` : "Choose", color: "bg-teal-100 dark:bg-teal-900" }
+      case "set_date":
+        return { icon: "event", label: `Date ${action.value}`, color: "bg-teal-100 dark:bg-teal-900" }
+      case "choose_option":
+        return { icon: "list", label: `Pick ${action.value}`, color: "bg-pink-100 dark:bg-pink-900" }
+      case "press_key":
+        return { icon: "keyboard", label: `Press ${action.key}`, color: "bg-amber-100 dark:bg-amber-900" }
+      case "navigate_back":
+        return { icon: "arrow_back", label: "Go Back", color: "bg-sky-100 dark:bg-sky-900" }
+      case "navigate_to":
+        return { icon: "open_in_browser", label: `Open ${action.url.replace(/^https?:\/\//, "").split("/")[0]}`, color: "bg-sky-100 dark:bg-sky-900" }
+      case "reload":
+        return { icon: "refresh", label: "Reload", color: "bg-gray-100 dark:bg-gray-700" }
+      case "capture_screenshot":
+        return { icon: "photo_camera", label: action.mode === "full_page" ? "Look at Whole Page" : "Look Closer", color: "bg-indigo-100 dark:bg-indigo-900" }
       default:
         return { icon: "help", label: "Unknown", color: "bg-gray-100 dark:bg-gray-700" }
     }
@@ -73,266 +159,313 @@ function ActionBadge({ action }: { action: ConversationAction }) {
   )
 }
 
-// Execute an action on the current page via content script
-async function executeAction(action: ConversationAction): Promise<{ success: boolean; message?: string }> {
-  return new Promise(async (resolve) => {
-    const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-    const tabId = tabs[0]?.id
-    if (!tabId) {
-      resolve({ success: false, message: "No active tab" })
-      return
+// Translate an agent action into the page runtime message that performs it
+function toPageMessage(action: ConversationAction): { action: string; [key: string]: unknown } | null {
+  switch (action.action_type) {
+    case "click":
+      return { action: "CLICK_ELEMENT", selector: action.x_path, elementRef: action.element_ref, scope: action.scope }
+    case "highlight":
+      return { action: "HIGHLIGHT_ELEMENT", selector: action.selector, elementRef: action.element_ref, scope: action.scope }
+    case "remove_highlights":
+      return { action: "REMOVE_HIGHLIGHTS" }
+    case "magnify":
+      return { action: "MAGNIFY_TEXT", selector: action.selector, elementRef: action.element_ref, scope: action.scope, scaleFactor: action.scale_factor || 1.3 }
+    case "reset_magnification":
+      return { action: "RESET_MAGNIFICATION" }
+    case "scroll":
+      return { action: "SCROLL_TO_VIEW", selector: action.selector, elementRef: action.element_ref, scope: action.scope }
+    case "fill_form":
+      return { action: "FILL_FORM_FIELD", selector: action.selector, elementRef: action.element_ref, scope: action.scope, value: action.value }
+    case "select_dropdown":
+      return { action: "SELECT_DROPDOWN", selector: action.selector, elementRef: action.element_ref, scope: action.scope, value: action.value }
+    case "remove_clutter":
+      return { action: "REMOVE_CLUTTER" }
+    case "restore_clutter":
+      return { action: "RESTORE_CLUTTER" }
+    case "toggle_checkbox":
+      return { action: "TOGGLE_CHECKBOX", selector: action.selector, elementRef: action.element_ref, scope: action.scope, checked: action.checked }
+    case "choose_radio":
+      return { action: "CHOOSE_RADIO", selector: action.selector, elementRef: action.element_ref, scope: action.scope, value: action.value }
+    case "set_date":
+      return { action: "SET_DATE", selector: action.selector, elementRef: action.element_ref, scope: action.scope, value: action.value }
+    case "choose_option":
+      return { action: "CHOOSE_OPTION", selector: action.selector, elementRef: action.element_ref, scope: action.scope, value: action.value }
+    case "press_key":
+      return { action: "PRESS_KEY", selector: action.selector, elementRef: action.element_ref, scope: action.scope, key: action.key }
+    default:
+      return null
+  }
+}
+
+// Go back, open a URL or reload, returning once the new page has finished loading
+// so the next observation sees it
+async function executeNavigation(
+  action: NavigateBackAction | NavigateToAction | ReloadAction,
+  tabId: number,
+  currentUrl: string | undefined
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    if (action.action_type === "navigate_to") {
+      const { allowedSites } = await loadSettings()
+      const check = checkNavigationAllowed(action.url, currentUrl, allowedSites)
+      if (!check.allowed) {
+        return { success: false, message: check.reason }
+      }
+      const loaded = await navigateAndWait(tabId, () => chrome.tabs.update(tabId, { url: action.url }))
+      return { success: true, message: loaded ? `Opened ${action.url}` : `Opened ${action.url} (still loading)` }
     }
 
-    // Handle actions that don't need page execution
-    if (action.action_type === "wait") {
-      await new Promise((r) => setTimeout(r, action.duration))
-      resolve({ success: true, message: `Waited ${action.duration}ms` })
-      return
+    if (action.action_type === "navigate_back") {
+      const loaded = await navigateAndWait(tabId, () => chrome.tabs.goBack(tabId))
+      return { success: true, message: loaded ? "Went back to the previous page" : "Went back (page still loading)" }
     }
 
-    if (action.action_type === "message" || action.action_type === "complete") {
-      resolve({ success: true })
-      return
+    const loaded = await navigateAndWait(tabId, () => chrome.tabs.reload(tabId))
+    return { success: true, message: loaded ? "Reloaded the page" : "Reloaded (page still loading)" }
+  } catch (error) {
+    console.error("Navigation failed:", action.action_type, error)
+    return { success: false, message: error instanceof Error ? error.message : "Navigation failed" }
+  }
+}
+
+// A full page load ends the page runtime mid-wait and closes the message channel
+function isPageUnloadError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.includes("message port closed") || message.includes("message channel closed")
+}
+
+// Run a wait_for condition in the page. If the page navigates away while waiting, wait for the
+// new page to load: that satisfies url_changes, and other conditions are checked again there.
+async function executeWaitFor(action: WaitForAction, tabId: number, currentUrl: string | undefined): Promise<{ success: boolean; message?: string }> {
+  const message = {
+    action: "WAIT_FOR",
+    condition: action.condition,
+    selector: action.selector,
+    elementRef: action.element_ref,
+    scope: action.scope,
+    text: action.text,
+    timeoutMs: action.timeout_ms,
+    quietMs: action.quiet_ms,
+    fromUrl: currentUrl
+  }
+
+  try {
+    return await sendPageMessage<{ success: boolean; message?: string }>(tabId, message)
+  } catch (error) {
+    if (!isPageUnloadError(error)) {
+      console.error("Failed to wait for condition:", action.condition, error)
+      return { success: false, message: error instanceof Error ? error.message : "Failed to wait" }
     }
+  }
 
-    // Store action parameters for fallback
-    const selector = action.x_path || action.selector
-    const value = action.value
-    const scaleFactor = action.scale_factor || 1.3
+  const loaded = await waitForTabComplete(tabId, action.timeout_ms)
+  if (action.condition === "url_changes") {
+    return { success: true, message: loaded ? "A new page loaded" : "A new page is loading" }
+  }
+  try {
+    return await sendPageMessage<{ success: boolean; message?: string }>(tabId, message)
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : "Failed to wait" }
+  }
+}
 
-    // Try sendMessage first (if content script is ready)
-    try {
-      let messageAction: string
-      let messagePayload: Record<string, unknown> = {}
-
-      switch (action.action_type) {
-        case "click":
-          messageAction = "CLICK_ELEMENT"
-          messagePayload = { selector: action.x_path }
-          break
-        case "highlight":
-          messageAction = "HIGHLIGHT_ELEMENT"
-          messagePayload = { selector: action.selector }
-          break
-        case "remove_highlights":
-          messageAction = "REMOVE_HIGHLIGHTS"
-          break
-        case "magnify":
-          messageAction = "MAGNIFY_TEXT"
-          messagePayload = { selector: action.selector, scaleFactor: action.scale_factor || 1.3 }
-          break
-        case "reset_magnification":
-          messageAction = "RESET_MAGNIFICATION"
-          break
-        case "scroll":
-          messageAction = "SCROLL_TO_VIEW"
-          messagePayload = { selector: action.selector }
-          break
-        case "fill_form":
-          messageAction = "FILL_FORM_FIELD"
-          messagePayload = { selector: action.selector, value: action.value }
-          break
-        case "select_dropdown":
-          messageAction = "SELECT_DROPDOWN"
-          messagePayload = { selector: action.selector, value: action.value }
-          break
-        case "remove_clutter":
-          messageAction = "REMOVE_CLUTTER"
-          break
-        case "restore_clutter":
-          messageAction = "RESTORE_CLUTTER"
-          break
-      }
+// Let the page finish reacting to the last actions before observing it: no fixed sleep,
+// but a wait for the DOM to go quiet (bounded, and cut short if the task is stopped)
+async function waitForPageToSettle(tabId: number, signal: AbortSignal) {
+  const settle: WaitForAction = {
+    action_type: "wait_for",
+    condition: "dom_idle",
+    quiet_ms: PAGE_SETTLE_QUIET_MS,
+    timeout_ms: PAGE_SETTLE_TIMEOUT_MS,
+    timestamp: new Date().toISOString()
+  }
+  await Promise.race([executeAction(settle, tabId, false, signal), sleep(PAGE_SETTLE_TIMEOUT_MS + 1000, signal)])
+}
 
-      chrome.tabs.sendMessage(tabId, { action: messageAction, ...messagePayload }, (response) => {
-        if (chrome.runtime.lastError) {
-          const errorMsg = chrome.runtime.lastError.message
-          if (errorMsg?.includes("Receiving end does not exist") ||
-            errorMsg?.includes("Could not establish connection")) {
-            // Content script not ready, fall back to executeScript
-            console.log("Content script not ready for action, using executeScript fallback")
-            fallbackToExecuteScript()
-          } else {
-            resolve({ success: false, message: errorMsg || "Failed to execute action" })
-          }
-        } else {
-          resolve(response || { success: true })
-        }
-      })
-    } catch (sendError) {
-      // Content script not loaded, fall back to executeScript
-      console.log("Content script not loaded for action, using executeScript fallback:", sendError)
-      fallbackToExecuteScript()
+// Execute an action in the task's tab via the page runtime
+// (injected on demand when the content script isn't loaded, so safety checks and undo match)
+// confirmed tells the page the user already approved a step the safety policy asks about;
+// waits end early when signal reports the task was stopped
+async function executeAction(
+  action: ConversationAction,
+  tabId: number,
+  confirmed: boolean = false,
+  signal?: AbortSignal
+): Promise<{ success: boolean; message?: string; needsConfirmation?: boolean }> {
+  // Handle actions that don't need page execution
+  if (action.action_type === "wait") {
+    await sleep(action.duration, signal)
+    if (signal?.aborted) return { success: false, message: "Stopped while waiting" }
+    return { success: true, message: `Waited ${action.duration}ms` }
+  }
+
+  if (action.action_type === "message" || action.action_type === "complete") {
+    return { success: true }
+  }
+
+  // Taken with the next observation, so the picture matches the page the agent reads
+  if (action.action_type === "capture_screenshot") {
+    const subject = action.mode === "full_page" ? "the whole page" : "that element"
+    return { success: true, message: `The next screenshot will show ${subject}` }
+  }
+
+  // The task's tab, whether or not the user is looking at it right now
+  const tab = await chrome.tabs.get(tabId).catch(() => undefined)
+  if (!tab) {
+    return { success: false, message: "The tab this task was running in has been closed" }
+  }
+
+  if (action.action_type === "wait_for") {
+    const stopped = whenAborted(signal).then(() => ({ success: false, message: "Stopped while waiting" }))
+    return Promise.race([executeWaitFor(action, tabId, tab.url), stopped])
+  }
+
+  // Browser navigation happens at the tab level, not in the page
+  if (action.action_type === "navigate_back" || action.action_type === "navigate_to" || action.action_type === "reload") {
+    return executeNavigation(action, tabId, tab.url)
+  }
+
+  // Nothing gets clicked or typed on a copy of a trusted site while its warning is up
+  const lookalike = await getLookalikeAlert(tabId)
+  if (lookalike) {
+    return {
+      success: false,
+      message: `Stopped: ${lookalike.host} is not ${lookalike.trusted}, it only looks like it. Waiting for the user to answer the warning.`
     }
+  }
 
-    // Fallback function using executeScript (plain JavaScript only!)
-    async function fallbackToExecuteScript() {
-      try {
-        // Create plain JavaScript function based on action type (NO TypeScript syntax!)
-        let executeFunc: any
-        let args: any[] = []
-
-        switch (action.action_type) {
-          case "click":
-            executeFunc = function (sel) {
-              const element = document.querySelector(sel)
-              if (!element) return { success: false, message: "Element not found: " + sel }
-              const el = element
-              const unsafePatterns = [
-                /pay/i, /purchase/i, /buy/i, /checkout/i, /order/i,
-                /confirm/i, /submit.*order/i, /complete.*purchase/i,
-                /delete/i, /remove/i, /cancel.*subscription/i,
-                /sign.*out/i, /log.*out/i, /disconnect/i,
-                /unsubscribe/i, /deactivate/i
-              ]
-              const text = ((el.textContent || "") + (el.value || "") + (el.getAttribute("aria-label") || "")).toLowerCase()
-              for (let i = 0; i < unsafePatterns.length; i++) {
-                if (unsafePatterns[i].test(text)) {
-                  return { success: false, message: "Blocked: This appears to be a sensitive action. Please click manually." }
-                }
-              }
-              el.click()
-              return { success: true, message: "Clicked element: " + sel }
-            }
-            args = [selector]
-            break
-          case "highlight":
-            executeFunc = function (sel) {
-              const element = document.querySelector(sel)
-              if (!element) return { success: false, message: "Element not found: " + sel }
-              element.setAttribute("data-silver-surfer-highlight", "true")
-              element.style.setProperty("outline", "4px solid #000", "important")
-              element.style.setProperty("outline-offset", "2px", "important")
-              element.style.setProperty("box-shadow", "6px 6px 0 0 #3b82f6", "important")
-              return { success: true, message: "Highlighted element: " + sel }
-            }
-            args = [selector]
-            break
-          case "remove_highlights":
-            executeFunc = function () {
-              document.querySelectorAll("[data-silver-surfer-highlight]").forEach(function (el) {
-                el.removeAttribute("data-silver-surfer-highlight")
-                el.style.removeProperty("outline")
-                el.style.removeProperty("outline-offset")
-                el.style.removeProperty("box-shadow")
-              })
-              return { success: true, message: "Removed all highlights" }
-            }
-            break
-          case "magnify":
-            executeFunc = function (sel, scale) {
-              const element = document.querySelector(sel)
-              if (!element) return { success: false, message: "Element not found: " + sel }
-              const scaleVal = scale || 1.3
-              element.style.setProperty("font-size", (scaleVal * 100) + "%", "important")
-              element.style.setProperty("transform", "scale(" + scaleVal + ")", "important")
-              return { success: true, message: "Magnified element: " + sel }
-            }
-            args = [selector, scaleFactor]
-            break
-          case "reset_magnification":
-            executeFunc = function () {
-              document.querySelectorAll("[style*='font-size'], [style*='transform']").forEach(function (el) {
-                el.style.removeProperty("font-size")
-                el.style.removeProperty("transform")
-              })
-              return { success: true, message: "Reset magnification" }
-            }
-            break
-          case "scroll":
-            executeFunc = function (sel) {
-              const element = document.querySelector(sel)
-              if (!element) return { success: false, message: "Element not found: " + sel }
-              element.scrollIntoView({ behavior: "smooth", block: "center" })
-              return { success: true, message: "Scrolled to element: " + sel }
-            }
-            args = [selector]
-            break
-          case "fill_form":
-            executeFunc = function (sel, val) {
-              const element = document.querySelector(sel)
-              if (!element) return { success: false, message: "Element not found: " + sel }
-              if (["INPUT", "TEXTAREA"].indexOf(element.tagName) === -1) {
-                return { success: false, message: "Element is not an input field: " + element.tagName }
-              }
-              const inputType = element.type || ""
-              if (["password", "credit-card"].indexOf(inputType) !== -1) {
-                return { success: false, message: "Blocked: Cannot auto-fill sensitive fields" }
-              }
-              element.focus()
-              element.value = val || ""
-              element.dispatchEvent(new Event("input", { bubbles: true }))
-              element.dispatchEvent(new Event("change", { bubbles: true }))
-              return { success: true, message: "Filled field: " + sel }
-            }
-            args = [selector, value]
-            break
-          case "select_dropdown":
-            executeFunc = function (sel, val) {
-              const element = document.querySelector(sel)
-              if (!element || element.tagName !== "SELECT") {
-                return { success: false, message: "Select element not found: " + sel }
-              }
-              element.value = val || ""
-              element.dispatchEvent(new Event("change", { bubbles: true }))
-              return { success: true, message: "Selected option: " + val }
-            }
-            args = [selector, value]
-            break
-          case "remove_clutter":
-            executeFunc = function () {
-              const clutterSelectors = ["aside", "nav", "footer", ".ad", ".advertisement", "[class*='ad-']"]
-              clutterSelectors.forEach(function (sel) {
-                document.querySelectorAll(sel).forEach(function (el) {
-                  el.style.setProperty("display", "none", "important")
-                })
-              })
-              return { success: true, message: "Removed clutter" }
-            }
-            break
-          case "restore_clutter":
-            executeFunc = function () {
-              document.querySelectorAll("[style*='display: none']").forEach(function (el) {
-                el.style.removeProperty("display")
-              })
-              return { success: true, message: "Restored clutter" }
-            }
-            break
-          default:
-            resolve({ success: false, message: "Unknown action type for fallback" })
-            return
-        }
+  const message = toPageMessage(action)
+  if (!message) {
+    return { success: false, message: `Unknown action type: ${action.action_type}` }
+  }
 
-        const results = await chrome.scripting.executeScript({
-          target: { tabId: tabId },
-          func: executeFunc,
-          args: args
-        })
+  try {
+    const response = await sendPageMessage<{ success: boolean; message?: string; needsConfirmation?: boolean }>(
+      tabId,
+      { ...message, confirmed }
+    )
+    return response || { success: true }
+  } catch (error) {
+    console.error("Failed to execute action:", action.action_type, error)
+    return { success: false, message: error instanceof Error ? error.message : "Failed to execute action" }
+  }
+}
 
-        if (results && results[0]?.result) {
-          resolve(results[0].result)
-        } else {
-          resolve({ success: false, message: "Action execution returned no result" })
-        }
-      } catch (scriptError) {
-        console.error("executeScript failed for action:", scriptError)
-        resolve({ success: false, message: scriptError instanceof Error ? scriptError.message : "Failed to execute action" })
+type ConfirmStep = (action: ConversationAction, prompt?: string) => Promise<boolean>
+
+// Execute all page actions sequentially, collecting a result per action for the agent
+// Stops between steps once the task is cancelled. Steps the safety policy flags are highlighted
+// and retried once the user approves them; with askEveryStep, every click and form entry is.
+async function executeActions(
+  actions: ConversationAction[],
+  tabId: number,
+  signal?: AbortSignal,
+  confirmStep?: ConfirmStep,
+  askEveryStep: boolean = false
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = []
+  for (const [index, action] of actions.entries()) {
+    if (signal?.aborted) break
+
+    // Messages are shown in the chat, not run on the page
+    if (action.action_type === "message" || action.action_type === "complete") continue
+
+    const declined: ActionResult = {
+      action_index: index,
+      action_type: action.action_type,
+      success: false,
+      message: "Declined: the user chose not to do this step",
+      declined: true
+    }
+
+    let approvedUpFront = false
+    if (confirmStep && askEveryStep && STEP_APPROVAL_ACTIONS.includes(action.action_type)) {
+      approvedUpFront = await showStepAndConfirm(action, tabId, confirmStep)
+      if (signal?.aborted) break
+      if (!approvedUpFront) {
+        results.push(declined)
+        continue
       }
     }
-  })
-}
 
-// Execute all actions sequentially
-async function executeActions(actions: ConversationAction[]): Promise<void> {
-  for (const action of actions) {
-    await executeAction(action)
+    let result = await executeAction(action, tabId, approvedUpFront, signal)
+    if (result.needsConfirmation && confirmStep) {
+      const approved = await showStepAndConfirm(action, tabId, confirmStep, result.message)
+      if (signal?.aborted) break
+      if (!approved) {
+        results.push(declined)
+        continue
+      }
+      result = await executeAction(action, tabId, true, signal)
+    }
+
+    results.push({
+      action_index: index,
+      action_type: action.action_type,
+      success: result.success,
+      message: result.message || (result.success ? "Done" : "Action failed")
+    })
+    if (!result.success) {
+      console.warn("Action failed:", action.action_type, result.message)
+    }
+
     // Small delay between actions for visual feedback
-    if (action.action_type !== "wait") {
-      await new Promise((r) => setTimeout(r, 200))
+    if (action.action_type !== "wait" && action.action_type !== "wait_for") {
+      await sleep(200, signal)
+    }
+  }
+  return results
+}
+
+// Point at the element a step would touch, then wait for the user's answer
+async function showStepAndConfirm(
+  action: ConversationAction,
+  tabId: number,
+  confirmStep: ConfirmStep,
+  prompt?: string
+): Promise<boolean> {
+  const selector = action.action_type === "click" ? action.x_path : "selector" in action ? action.selector : undefined
+  const elementRef = "element_ref" in action ? action.element_ref : undefined
+  const scope = "scope" in action ? action.scope : undefined
+  const hasTarget = Boolean(selector || elementRef)
+  if (hasTarget) {
+    await executeAction({ action_type: "highlight", selector, element_ref: elementRef, scope, timestamp: new Date().toISOString() }, tabId)
+  }
+  try {
+    return await confirmStep(action, prompt)
+  } finally {
+    if (hasTarget) {
+      await executeAction({ action_type: "remove_highlights", timestamp: new Date().toISOString() }, tabId)
     }
   }
 }
 
+// Undo the visual changes a task leaves on the page (used when the user stops it)
+async function clearPageEffects(tabId: number): Promise<void> {
+  const timestamp = new Date().toISOString()
+  await executeAction({ action_type: "remove_highlights", timestamp }, tabId)
+  await executeAction({ action_type: "reset_magnification", timestamp }, tabId)
+}
+
+// " (example.com)" for the page a fresh chat is offered for, or nothing when the address can't be read
+function describeOfferPage(url: string): string {
+  try {
+    return ` (${new URL(url).hostname.replace(/^www\./, "")})`
+  } catch {
+    return ""
+  }
+}
+
+// The tab a conversation works in: the one it's bound to while that's still open, otherwise the one on screen
+async function resolveTaskTab(boundTabId: number | null): Promise<chrome.tabs.Tab | undefined> {
+  if (boundTabId !== null) {
+    const bound = await chrome.tabs.get(boundTabId).catch(() => undefined)
+    if (bound?.id) return bound
+  }
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  return tab
+}
+
 function AssistantMessage({ message, onSpeak }: { message: ChatMessage; onSpeak: (text: string) => void }) {
   return (
     <div className="flex w-full justify-start">
@@ -364,6 +497,47 @@ function AssistantMessage({ message, onSpeak }: { message: ChatMessage; onSpeak:
   )
 }
 
+function StepApprovalCard({
+  message,
+  onAnswer
+}: {
+  message: ChatMessage
+  onAnswer: (messageId: string, approved: boolean) => void
+}) {
+  const approval = message.approval!
+  return (
+    <div className="flex w-full justify-start">
+      <div className="relative z-20 w-full max-w-[90%] rounded-xl border-4 border-ink bg-yellow-100 p-5 text-ink shadow-comic dark:bg-yellow-900 dark:text-white">
+        <p className="font-display text-xl uppercase tracking-wide">May I do this step?</p>
+        <p className="mt-2 font-body text-lg font-bold leading-snug">{message.content}</p>
+        <div className="mt-3">
+          <ActionBadge action={approval.action} />
+        </div>
+        {approval.status === "pending" ? (
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={() => onAnswer(message.id, true)}
+              className="flex-1 rounded-xl border-2 border-ink bg-green-400 py-3 font-display text-2xl uppercase text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover"
+            >
+              Yes
+            </button>
+            <button
+              onClick={() => onAnswer(message.id, false)}
+              className="flex-1 rounded-xl border-2 border-ink bg-white py-3 font-display text-2xl uppercase text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover dark:bg-slate-700 dark:text-white"
+            >
+              No, skip it
+            </button>
+          </div>
+        ) : (
+          <p className="mt-3 text-sm font-bold uppercase tracking-widest text-gray-600 dark:text-gray-300">
+            {approval.status === "approved" ? "You said yes" : "Skipped"}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
 function UserMessage({ message }: { message: ChatMessage }) {
   return (
     <div className="flex w-full justify-end">
@@ -404,7 +578,9 @@ export default function ChatTab() {
     messages: [],
     sessionId: null,
     isProcessing: false,
-    isComplete: false
+    isComplete: false,
+    isCancelled: false,
+    tabId: null
   })
   const [conversationTitle, setConversationTitle] = useState<string | null>(null)
   const [inputValue, setInputValue] = useState("")
@@ -412,52 +588,197 @@ export default function ChatTab() {
   const [isHandsFree, setIsHandsFree] = useState(false)
   const [isAssistantSpeaking, setIsAssistantSpeaking] = useState(false)
   const [lastSpokenAssistantId, setLastSpokenAssistantId] = useState<string | null>(null)
-  const [currentPageUrl, setCurrentPageUrl] = useState<string | null>(null)
+  const [voiceAssist, setVoiceAssist] = useState(false)
+  // Read inside the running agent loop, so kept in a ref rather than state
+  const askBeforeEachStepRef = useRef(false)
+  // Page the conversation is about, and where the user has since gone by themselves (offered a fresh chat)
+  const [conversationUrl, setConversationUrl] = useState<string | null>(null)
+  const [newChatOffer, setNewChatOffer] = useState<string | null>(null)
+  // When the last task finished; a page load right after it still comes from the assistant's last click
+  const lastTaskEndedAtRef = useRef(0)
+  // Tab on screen in this window, and the title of the conversation's tab when that's a different one
+  const [activeTabId, setActiveTabId] = useState<number | null>(null)
+  const [otherTabTitle, setOtherTabTitle] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const handsFreeStopTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const activeRecordingIdRef = useRef<string | null>(null)
+  // Controller for the running agent task; aborting it stops requests and actions
+  const taskControllerRef = useRef<AbortController | null>(null)
+  // Resolver for the approval card currently waiting on the user, keyed by its message id
+  const pendingApprovalRef = useRef<{ messageId: string; answer: (approved: boolean) => void } | null>(null)
 
-  // Clear conversation when page URL changes significantly
-  useEffect(() => {
-    const checkPageChange = () => {
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-        const newUrl = tabs[0]?.url
-        if (newUrl && currentPageUrl) {
-          // Check if the origin/path changed (not just hash/query)
-          try {
-            const oldOrigin = new URL(currentPageUrl).origin + new URL(currentPageUrl).pathname
-            const newOrigin = new URL(newUrl).origin + new URL(newUrl).pathname
-            if (oldOrigin !== newOrigin) {
-              // Page changed, clear conversation
-              console.log("Page changed, clearing conversation", { from: currentPageUrl, to: newUrl })
-              setChatState({
-                messages: [],
-                sessionId: null,
-                isProcessing: false,
-                isComplete: false
-              })
-            }
-          } catch {
-            // URL parsing failed, ignore
-          }
-        }
-        setCurrentPageUrl(newUrl || null)
-      })
+  // Show a saved conversation (or a fresh one) for a tab
+  const showConversation = useCallback((tabId: number, saved: TabConversation | null, tabUrl: string | undefined) => {
+    setChatState({
+      messages: saved?.messages ?? [],
+      sessionId: saved?.sessionId ?? null,
+      isProcessing: false,
+      isComplete: saved?.isComplete ?? false,
+      isCancelled: saved?.isCancelled ?? false,
+      tabId
+    })
+    // Replies in a restored conversation were heard before; only new ones are read aloud
+    const lastAssistant = [...(saved?.messages ?? [])].reverse().find((m) => m.role === "assistant")
+    setLastSpokenAssistantId(lastAssistant?.id ?? null)
+    setConversationTitle(saved?.title ?? null)
+    const pageUrl = saved?.pageUrl ?? tabUrl ?? null
+    setConversationUrl(pageUrl)
+    // The tab went somewhere else while its conversation was out of sight
+    setNewChatOffer(saved && pageUrl && tabUrl && !isSamePage(pageUrl, tabUrl) ? tabUrl : null)
+    // Update active session in storage for History tab to check
+    if (saved?.sessionId) {
+      chrome.storage.local.set({ [ACTIVE_CHAT_SESSION_KEY]: saved.sessionId })
+    } else {
+      chrome.storage.local.remove([ACTIVE_CHAT_SESSION_KEY])
     }
+  }, [])
 
-    // Check initially
-    checkPageChange()
+  // Keep the conversation with its tab, so it's still there after tab switches and panel reopens
+  useEffect(() => {
+    if (chatState.tabId === null) return
+    saveTabConversation({
+      tabId: chatState.tabId,
+      sessionId: chatState.sessionId,
+      title: conversationTitle,
+      pageUrl: conversationUrl,
+      messages: chatState.messages,
+      isComplete: chatState.isComplete,
+      isCancelled: chatState.isCancelled
+    })
+  }, [chatState, conversationTitle, conversationUrl])
 
-    // Listen for tab updates
+  // Follow the conversation's tab to new pages. The assistant's own navigation (during a task, or the page
+  // its last click opened) just moves the conversation along; the user going elsewhere offers a fresh chat.
+  useEffect(() => {
+    const boundTabId = chatState.tabId
+    if (boundTabId === null) return
+    const hasConversation = chatState.messages.length > 0
     const handleTabUpdate = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-      if (changeInfo.url) {
-        checkPageChange()
+      if (tabId !== boundTabId || !changeInfo.url) return
+      const byAssistant = taskControllerRef.current !== null ||
+        Date.now() - lastTaskEndedAtRef.current < AGENT_NAVIGATION_GRACE_MS
+      if (!hasConversation || byAssistant || !conversationUrl) {
+        setConversationUrl(changeInfo.url)
+        setNewChatOffer(null)
+      } else {
+        setNewChatOffer(isSamePage(conversationUrl, changeInfo.url) ? null : changeInfo.url)
       }
     }
 
     chrome.tabs.onUpdated.addListener(handleTabUpdate)
     return () => chrome.tabs.onUpdated.removeListener(handleTabUpdate)
-  }, [currentPageUrl])
+  }, [chatState.tabId, chatState.messages.length, conversationUrl])
+
+  // Follow whichever tab the user is looking at in this window
+  useEffect(() => {
+    let windowId: number | undefined
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      windowId = tab?.windowId
+      if (tab?.id) setActiveTabId(tab.id)
+    })
+    const handleActivated = (info: chrome.tabs.TabActiveInfo) => {
+      if (windowId === undefined || info.windowId === windowId) setActiveTabId(info.tabId)
+    }
+    chrome.tabs.onActivated.addListener(handleActivated)
+    return () => chrome.tabs.onActivated.removeListener(handleActivated)
+  }, [])
+
+  // Switch to the conversation of the tab on screen; a running task keeps its own until it finishes
+  useEffect(() => {
+    if (activeTabId === null || chatState.isProcessing || chatState.tabId === activeTabId) return
+    // A conversation opened before the tab was known (from History) belongs to the tab on screen
+    if (chatState.tabId === null && chatState.messages.length > 0) {
+      setChatState((prev) => ({ ...prev, tabId: activeTabId }))
+      return
+    }
+    let cancelled = false
+    Promise.all([
+      loadTabConversation(activeTabId),
+      chrome.tabs.get(activeTabId).catch(() => undefined)
+    ]).then(([saved, tab]) => {
+      if (!cancelled) showConversation(activeTabId, saved, tab?.url)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [activeTabId, chatState.isProcessing, chatState.tabId, chatState.messages.length, showConversation])
+
+  // Name the conversation's tab while the user is on a different one (and notice if it's renamed or closed)
+  useEffect(() => {
+    const boundTabId = chatState.tabId
+    if (boundTabId === null || activeTabId === null || boundTabId === activeTabId) {
+      setOtherTabTitle(null)
+      return
+    }
+    const refresh = () => {
+      chrome.tabs.get(boundTabId)
+        .then((tab) => setOtherTabTitle(tab.title || tab.url || "another tab"))
+        .catch(() => setOtherTabTitle(null))
+    }
+    refresh()
+    const handleUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (tabId === boundTabId && (changeInfo.title || changeInfo.url)) refresh()
+    }
+    const handleRemoved = (tabId: number) => {
+      if (tabId === boundTabId) setOtherTabTitle(null)
+    }
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    chrome.tabs.onRemoved.addListener(handleRemoved)
+    return () => {
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+      chrome.tabs.onRemoved.removeListener(handleRemoved)
+    }
+  }, [activeTabId, chatState.tabId])
+
+  // Voice assistance from the Settings tab reads replies aloud even outside hands-free mode
+  useEffect(() => subscribeToSettings((settings) => {
+    setVoiceAssist(settings.voiceAssist)
+    askBeforeEachStepRef.current = settings.askBeforeEachStep
+  }), [])
+
+  // Tell the user when a cookie pop-up was turned down for them on the page they're looking at
+  useEffect(() => {
+    const handleConsentHandled = (msg: ConsentHandledMessage | undefined, sender: chrome.runtime.MessageSender) => {
+      if (msg?.action !== "CONSENT_HANDLED" || sender.tab?.id === undefined) return
+      // Only the conversation showing is about that page; notices from other tabs would land in the wrong one
+      setChatState((prev) => prev.tabId !== sender.tab?.id ? prev : ({
+        ...prev,
+        messages: [...prev.messages, {
+          id: generateId(),
+          role: "assistant",
+          content: `I cleared a cookie pop-up for you without agreeing to any tracking. ${msg.result.message}.`,
+          timestamp: new Date()
+        }]
+      }))
+    }
+
+    chrome.runtime.onMessage.addListener(handleConsentHandled)
+    return () => chrome.runtime.onMessage.removeListener(handleConsentHandled)
+  }, [])
+
+  // Repeat scam warnings from the page in the chat, in plain words
+  useEffect(() => {
+    const handleScamWarning = (msg: ScamWarningMessage | undefined, sender: chrome.runtime.MessageSender) => {
+      if (msg?.action !== "SCAM_WARNING" || sender.tab?.id === undefined) return
+      const report = msg.report
+      const reasons = report.signals.map((signal) => signal.title.toLowerCase()).join("; ")
+      const content = report.riskLevel === "danger"
+        ? `Warning: ${report.host} looks like a scam (${reasons}). Please don't call any numbers, pay anything or type passwords there. If you're unsure, ask someone you trust.`
+        : `Be careful on ${report.host}: I noticed ${reasons}. It may be fine, but don't pay or share personal details unless you're sure.`
+      setChatState((prev) => prev.tabId !== sender.tab?.id ? prev : ({
+        ...prev,
+        messages: [...prev.messages, {
+          id: generateId(),
+          role: "assistant",
+          content,
+          timestamp: new Date()
+        }]
+      }))
+    }
+
+    chrome.runtime.onMessage.addListener(handleScamWarning)
+    return () => chrome.runtime.onMessage.removeListener(handleScamWarning)
+  }, [])
 
   const clearHandsFreeTimer = useCallback(() => {
     if (handsFreeStopTimer.current) {
@@ -501,13 +822,61 @@ export default function ChatTab() {
       }))
   }
 
+  // Show an approval card for a step and wait for Yes/No (a cancelled task counts as No)
+  const requestStepApproval = (action: ConversationAction, signal: AbortSignal, prompt?: string): Promise<boolean> => {
+    return new Promise((resolve) => {
+      const messageId = generateId()
+
+      const answer = (approved: boolean) => {
+        if (pendingApprovalRef.current?.messageId !== messageId) return
+        pendingApprovalRef.current = null
+        signal.removeEventListener("abort", handleAbort)
+        setChatState((prev) => ({
+          ...prev,
+          messages: prev.messages.map((m) =>
+            m.id === messageId && m.approval
+              ? { ...m, approval: { ...m.approval, status: approved ? "approved" : "declined" } }
+              : m
+          )
+        }))
+        resolve(approved)
+      }
+      const handleAbort = () => answer(false)
+
+      pendingApprovalRef.current = { messageId, answer }
+      signal.addEventListener("abort", handleAbort, { once: true })
+
+      setChatState((prev) => ({
+        ...prev,
+        messages: [...prev.messages, {
+          id: messageId,
+          role: "assistant",
+          content: prompt || action.reasoning || "I'd like to do the step shown on the page.",
+          timestamp: new Date(),
+          approval: { action, status: "pending" }
+        }]
+      }))
+    })
+  }
+
+  const handleApprovalAnswer = useCallback((messageId: string, approved: boolean) => {
+    if (pendingApprovalRef.current?.messageId === messageId) {
+      pendingApprovalRef.current.answer(approved)
+    }
+  }, [])
+
   // Process a single API response and execute actions
   const processAgentResponse = async (
     response: { success: boolean; data?: any; error?: string },
     currentSessionId: string | null,
     originalMessage: string,
-    iteration: number
+    iteration: number,
+    tabId: number,
+    signal: AbortSignal
   ): Promise<void> => {
+    // The user pressed Stop; handleStopTask has already updated the chat
+    if (signal.aborted) return
+
     if (!response.success || !response.data) {
       const errorContent = typeof response.error === "string"
         ? response.error
@@ -530,6 +899,17 @@ export default function ChatTab() {
 
     const { session_id, actions, complete, needs_observation, title } = response.data
 
+    // The agent can ask for the next screenshot to show the whole page or one element
+    const captureAction = [...actions].reverse().find(
+      (a: ConversationAction) => a.action_type === "capture_screenshot"
+    ) as CaptureScreenshotAction | undefined
+    const capture: ScreenshotTarget | undefined = captureAction && {
+      mode: captureAction.mode,
+      selector: captureAction.selector,
+      element_ref: captureAction.element_ref,
+      scope: captureAction.scope
+    }
+
     // Update conversation title if provided
     if (title && typeof title === "string") {
       setConversationTitle(title)
@@ -580,20 +960,24 @@ export default function ChatTab() {
       }
     }
 
-    // Execute page actions
-    if (executableActions.length > 0) {
-      await executeActions(executableActions)
-    }
+    // Execute page actions, keeping their outcomes to report on the next request
+    const confirmStep: ConfirmStep = (action, prompt) => requestStepApproval(action, signal, prompt)
+    const actionResults = executableActions.length > 0
+      ? await executeActions(actions, tabId, signal, confirmStep, askBeforeEachStepRef.current)
+      : []
+    if (signal.aborted) return
 
     // If task is not complete and we haven't hit max iterations, continue
     if (!complete && iteration < MAX_ITERATIONS) {
       if (needs_observation) {
         // Agent wants to observe the page after actions
         // Wait for page to update after actions
-        await new Promise((r) => setTimeout(r, 1000))
+        await waitForPageToSettle(tabId, signal)
+        if (signal.aborted) return
 
-        // Capture new page state
-        const newPageData = await getCurrentPageState()
+        // Capture new page state; after the first look only the changes are sent
+        const newPageData = await getCurrentPageState({ tabId, sessionId: session_id, delta: true, capture })
+        if (signal.aborted) return
 
         if (newPageData) {
           // Add a thinking indicator
@@ -612,7 +996,10 @@ export default function ChatTab() {
             `[OBSERVATION] Continuing task: ${originalMessage}`,
             session_id,
             newPageData.pageState,
-            newPageData.title
+            newPageData.title,
+            undefined,
+            actionResults,
+            signal
           )
 
           // Recursively process the next response
@@ -620,7 +1007,9 @@ export default function ChatTab() {
             observationResponse,
             session_id,
             originalMessage,
-            iteration + 1
+            iteration + 1,
+            tabId,
+            signal
           )
         } else {
           // Couldn't capture page state, mark as done
@@ -632,8 +1021,9 @@ export default function ChatTab() {
         }
       } else {
         // Agent wants to continue without observation - send continuation request with current page state
-        // Wait a bit for actions to complete
-        await new Promise((r) => setTimeout(r, 500))
+        // Wait for actions to take effect
+        await waitForPageToSettle(tabId, signal)
+        if (signal.aborted) return
 
         // Add a thinking indicator
         setChatState((prev) => ({
@@ -647,14 +1037,18 @@ export default function ChatTab() {
         }))
 
         // Get current page state (even though needs_observation is false, we still send it for context)
-        const currentPageData = await getCurrentPageState()
+        const currentPageData = await getCurrentPageState({ tabId, sessionId: session_id, delta: true, capture })
+        if (signal.aborted) return
 
         // Send continuation request to agent
         const continuationResponse = await sendConversationMessage(
           `[CONTINUE] Continuing task: ${originalMessage}`,
           session_id,
           currentPageData?.pageState || null,
-          currentPageData?.title || null
+          currentPageData?.title || null,
+          undefined,
+          actionResults,
+          signal
         )
 
         // Recursively process the next response
@@ -662,7 +1056,9 @@ export default function ChatTab() {
           continuationResponse,
           session_id,
           originalMessage,
-          iteration + 1
+          iteration + 1,
+          tabId,
+          signal
         )
       }
     } else {
@@ -692,7 +1088,8 @@ export default function ChatTab() {
   }, [handleTextToSpeech])
 
   const handleStartRecording = useCallback(async (autoStop = false) => {
-    if (isRecording || chatState.isProcessing) {
+    // Hands-free keeps listening during a task so the user can say "stop"
+    if (isRecording || (chatState.isProcessing && !isHandsFree)) {
       return false
     }
 
@@ -717,7 +1114,7 @@ export default function ChatTab() {
       activeRecordingIdRef.current = null
       return false
     }
-  }, [chatState.isProcessing, isRecording])
+  }, [chatState.isProcessing, isHandsFree, isRecording])
 
   const handleStopRecording = useCallback(async () => {
     if (!isRecording && !activeRecordingIdRef.current) {
@@ -759,11 +1156,38 @@ export default function ChatTab() {
       ...prev,
       messages: [...prev.messages, userMessage],
       isProcessing: true,
-      isComplete: false
+      isComplete: false,
+      isCancelled: false
     }))
 
+    const controller = new AbortController()
+    taskControllerRef.current = controller
+
+    // The conversation stays with the tab it started in, even if the user switches tabs while it works
+    const tab = await resolveTaskTab(chatState.tabId)
+    const tabId = tab?.id
+    if (!tabId) {
+      taskControllerRef.current = null
+      setChatState((prev) => ({
+        ...prev,
+        messages: [...prev.messages, {
+          id: generateId(),
+          role: "assistant",
+          content: "I couldn't find a web page to work on. Please open one and try again.",
+          timestamp: new Date()
+        }],
+        isProcessing: false
+      }))
+      return
+    }
+    setChatState((prev) => ({ ...prev, tabId }))
+    if (!conversationUrl || chatState.messages.length === 0) {
+      setConversationUrl(tab?.url ?? null)
+    }
+    setNewChatOffer(null)
+
     try {
-      const pageData = await getCurrentPageState()
+      const pageData = await getCurrentPageState({ tabId, sessionId: chatState.sessionId || undefined })
 
       // Include conversation history for context
       const response = await sendConversationMessage(
@@ -771,12 +1195,15 @@ export default function ChatTab() {
         chatState.sessionId,
         pageData?.pageState,
         pageData?.title,
-        currentHistory
+        currentHistory,
+        undefined,
+        controller.signal
       )
 
       // Process the response (may recurse for multi-step tasks)
-      await processAgentResponse(response, chatState.sessionId, trimmedInput, 0)
+      await processAgentResponse(response, chatState.sessionId, trimmedInput, 0, tabId, controller.signal)
     } catch (error) {
+      if (controller.signal.aborted) return
       console.error("Error in handleSendMessage:", error)
       const errorMessage: ChatMessage = {
         id: generateId(),
@@ -790,8 +1217,67 @@ export default function ChatTab() {
         messages: [...prev.messages, errorMessage],
         isProcessing: false
       }))
+    } finally {
+      if (taskControllerRef.current === controller) {
+        taskControllerRef.current = null
+        lastTaskEndedAtRef.current = Date.now()
+      }
+    }
+  }, [chatState.isProcessing, chatState.sessionId, chatState.tabId, chatState.messages.length, conversationUrl, inputValue])
+
+  // Abort the running task: cancel the pending request, stop further actions and tidy the page
+  const handleStopTask = useCallback(() => {
+    const controller = taskControllerRef.current
+    if (!controller) return
+
+    controller.abort()
+    taskControllerRef.current = null
+    // The task's own cleanup no longer sees itself as current; a page the last step opened is still ours
+    lastTaskEndedAtRef.current = Date.now()
+
+    setChatState((prev) => ({
+      ...prev,
+      messages: [...prev.messages, {
+        id: generateId(),
+        role: "assistant",
+        content: "Okay, I've stopped. I won't do anything else on the page.",
+        timestamp: new Date()
+      }],
+      isProcessing: false,
+      isCancelled: true
+    }))
+
+    if (chatState.tabId !== null) {
+      clearPageEffects(chatState.tabId).catch((err) => console.error("Failed to clear page effects:", err))
     }
-  }, [chatState.isProcessing, chatState.sessionId, inputValue])
+  }, [chatState.tabId])
+
+  // Put back the last change (or every change) the assistant made to the page
+  const handleUndo = useCallback(async (all: boolean) => {
+    let content: string
+    try {
+      const tabId = (await resolveTaskTab(chatState.tabId))?.id
+      if (!tabId) return
+      const result = await sendPageMessage<{ success: boolean; message: string }>(
+        tabId,
+        { action: all ? "UNDO_ALL" : "UNDO_LAST" }
+      )
+      content = result?.success ? `${result.message}.` : "There's nothing left to undo on this page."
+    } catch (error) {
+      console.error("Undo failed:", error)
+      content = "Sorry, I couldn't undo that on this page."
+    }
+
+    setChatState((prev) => ({
+      ...prev,
+      messages: [...prev.messages, {
+        id: generateId(),
+        role: "assistant",
+        content,
+        timestamp: new Date()
+      }]
+    }))
+  }, [chatState.tabId])
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -801,17 +1287,41 @@ export default function ChatTab() {
   }, [handleSendMessage])
 
   const handleNewConversation = useCallback(() => {
+    taskControllerRef.current?.abort()
+    taskControllerRef.current = null
+    // Replaces the tab's conversation; the new one is about the page the tab is on now
     setChatState({
       messages: [],
       sessionId: null,
       isProcessing: false,
-      isComplete: false
+      isComplete: false,
+      isCancelled: false,
+      tabId: chatState.tabId ?? activeTabId
     })
     setConversationTitle(null)
+    setConversationUrl(newChatOffer ?? conversationUrl)
+    setNewChatOffer(null)
     setInputValue("")
     // Clear active session in storage
     chrome.storage.local.remove([ACTIVE_CHAT_SESSION_KEY])
-  }, [])
+  }, [activeTabId, chatState.tabId, conversationUrl, newChatOffer])
+
+  // Carry on with the current conversation on the page the user went to
+  const handleKeepConversation = useCallback(() => {
+    setConversationUrl(newChatOffer)
+    setNewChatOffer(null)
+  }, [newChatOffer])
+
+  // Bring the conversation's tab (and its window) to the front
+  const handleGoToTaskTab = useCallback(async () => {
+    if (chatState.tabId === null) return
+    try {
+      const tab = await chrome.tabs.update(chatState.tabId, { active: true })
+      if (tab?.windowId) await chrome.windows.update(tab.windowId, { focused: true })
+    } catch (error) {
+      console.error("Failed to switch to the task's tab:", error)
+    }
+  }, [chatState.tabId])
 
   const handleHandsFreeToggle = useCallback(() => {
     const next = !isHandsFree
@@ -862,6 +1372,18 @@ export default function ChatTab() {
         }
 
         if (msg.text) {
+          // While a task is running we only listen for "stop" and answers to approval cards
+          if (taskControllerRef.current) {
+            if (STOP_COMMAND_PATTERN.test(msg.text)) {
+              handleStopTask()
+            } else if (pendingApprovalRef.current && YES_COMMAND_PATTERN.test(msg.text)) {
+              pendingApprovalRef.current.answer(true)
+            } else if (pendingApprovalRef.current && NO_COMMAND_PATTERN.test(msg.text)) {
+              pendingApprovalRef.current.answer(false)
+            }
+            return
+          }
+
           setInputValue(msg.text)
           if (isHandsFree) {
             handleSendMessage(msg.text)
@@ -872,7 +1394,7 @@ export default function ChatTab() {
 
     chrome.runtime.onMessage.addListener(handleMessage)
     return () => chrome.runtime.onMessage.removeListener(handleMessage)
-  }, [clearHandsFreeTimer, handleSendMessage, isHandsFree])
+  }, [clearHandsFreeTimer, handleSendMessage, handleStopTask, isHandsFree])
 
   useEffect(() => {
     scrollToBottom()
@@ -906,7 +1428,9 @@ export default function ChatTab() {
               messages: loadedMessages,
               sessionId: pendingSessionId,
               isProcessing: false,
-              isComplete: conversationResult.data.CompletedAt !== null
+              isComplete: conversationResult.data.CompletedAt !== null,
+              isCancelled: false,
+              tabId: chatState.tabId ?? activeTabId
             })
             setConversationTitle(conversationResult.data.Title || null)
             // Update active session in storage for History tab to check
@@ -922,7 +1446,7 @@ export default function ChatTab() {
     } catch (error) {
       console.error("Error loading pending conversation:", error)
     }
-  }, [chatState.messages.length, chatState.sessionId])
+  }, [activeTabId, chatState.messages.length, chatState.sessionId, chatState.tabId])
 
   useEffect(() => {
     loadPendingConversation()
@@ -963,7 +1487,7 @@ export default function ChatTab() {
   }, [chatState.messages.length, chatState.sessionId, loadPendingConversation, handleNewConversation])
 
   useEffect(() => {
-    if (!isHandsFree || isRecording || chatState.isProcessing || isAssistantSpeaking) {
+    if (!isHandsFree || isRecording || isAssistantSpeaking) {
       return
     }
 
@@ -995,7 +1519,7 @@ export default function ChatTab() {
   ])
 
   useEffect(() => {
-    if (!isHandsFree || chatState.isProcessing) {
+    if ((!isHandsFree && !voiceAssist) || chatState.isProcessing) {
       return
     }
 
@@ -1031,11 +1555,34 @@ export default function ChatTab() {
     chatState.isProcessing,
     handleTextToSpeech,
     isHandsFree,
-    lastSpokenAssistantId
+    lastSpokenAssistantId,
+    voiceAssist
   ])
 
+  const isAwaitingApproval = chatState.messages.some((m) => m.approval?.status === "pending")
+
   return (
     <>
+      {/* The conversation belongs to a tab the user has moved away from */}
+      {otherTabTitle && chatState.messages.length > 0 && (
+        <div
+          className="flex shrink-0 items-center gap-3 border-t-4 border-ink bg-comic-yellow px-4 py-3 text-ink"
+          role="status">
+          <span className="material-icons-outlined text-3xl">tab</span>
+          <div className="min-w-0 flex-1">
+            <p className="text-lg font-bold leading-tight">
+              {chatState.isProcessing ? "Your task is running in another tab" : "This chat is about another tab"}
+            </p>
+            <p className="truncate text-sm font-bold text-gray-700">{otherTabTitle}</p>
+          </div>
+          <button
+            onClick={handleGoToTaskTab}
+            className="shrink-0 rounded-lg border-2 border-ink bg-white px-3 py-2 text-base font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover">
+            Go to that tab
+          </button>
+        </div>
+      )}
+
       {/* Chat messages area */}
       <div className="comic-scroll bg-dots flex-1 space-y-6 overflow-y-auto border-t-4 border-ink bg-white bg-halftone-light p-4 dark:bg-slate-800 dark:bg-halftone-dark">
         {/* Conversation title */}
@@ -1068,16 +1615,41 @@ export default function ChatTab() {
         {chatState.messages.map((message) => (
           message.role === "user" ? (
             <UserMessage key={message.id} message={message} />
+          ) : message.approval ? (
+            <StepApprovalCard key={message.id} message={message} onAnswer={handleApprovalAnswer} />
           ) : (
             <AssistantMessage key={message.id} message={message} onSpeak={speakMessage} />
           )
         ))}
 
-        {/* Loading indicator */}
-        {chatState.isProcessing && <LoadingMessage />}
+        {/* The user went to another page by themselves: offer, don't force, a fresh start */}
+        {newChatOffer && !chatState.isProcessing && chatState.messages.length > 0 && (
+          <div className="rounded-xl border-2 border-ink bg-comic-yellow p-4 text-ink shadow-comic">
+            <p className="mb-3 text-lg font-bold leading-snug">
+              You've moved to a different page{describeOfferPage(newChatOffer)}. Start a new chat about it?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleNewConversation}
+                className="flex flex-1 items-center justify-center gap-2 rounded-lg border-2 border-ink bg-white py-2 text-base font-bold shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover">
+                <span className="material-icons-outlined">add_circle</span>
+                New chat
+              </button>
+              <button
+                onClick={handleKeepConversation}
+                className="flex flex-1 items-center justify-center gap-2 rounded-lg border-2 border-ink bg-white py-2 text-base font-bold shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover">
+                <span className="material-icons-outlined">forum</span>
+                Keep this chat
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Loading indicator (hidden while a step waits for the user's answer) */}
+        {chatState.isProcessing && !isAwaitingApproval && <LoadingMessage />}
 
-        {/* Conversation complete indicator */}
-        {chatState.isComplete && chatState.messages.length > 0 && (
+        {/* Conversation complete (or stopped) indicator */}
+        {(chatState.isComplete || chatState.isCancelled) && chatState.messages.length > 0 && (
           <div className="flex justify-center">
             <button
               onClick={handleNewConversation}
@@ -1096,6 +1668,38 @@ export default function ChatTab() {
 
       {/* Footer input */}
       <div className="relative z-20 shrink-0 border-t-4 border-ink bg-gray-100 p-4 dark:bg-slate-900">
+        {/* Big, obvious way out while the assistant is working on the page */}
+        {chatState.isProcessing && (
+          <button
+            onClick={handleStopTask}
+            className="mb-3 flex w-full items-center justify-center gap-3 rounded-xl border-4 border-ink bg-comic-red py-3 font-display text-3xl uppercase tracking-wider text-white shadow-comic-lg transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic active:bg-red-700"
+            aria-label="Stop the assistant"
+          >
+            <span className="material-icons-outlined text-4xl">pan_tool</span>
+            Stop
+          </button>
+        )}
+        {/* Undo what the assistant changed on the page */}
+        {!chatState.isProcessing && chatState.messages.length > 0 && (
+          <div className="mb-3 flex gap-3">
+            <button
+              onClick={() => handleUndo(false)}
+              className="flex flex-1 items-center justify-center gap-2 rounded-xl border-2 border-ink bg-white py-2 text-lg font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover dark:bg-slate-800 dark:text-white"
+              title="Undo the last change made to the page"
+            >
+              <span className="material-icons-outlined">undo</span>
+              Undo
+            </button>
+            <button
+              onClick={() => handleUndo(true)}
+              className="flex flex-1 items-center justify-center gap-2 rounded-xl border-2 border-ink bg-white py-2 text-lg font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover dark:bg-slate-800 dark:text-white"
+              title="Put the page back the way it was"
+            >
+              <span className="material-icons-outlined">restore_page</span>
+              Undo All
+            </button>
+          </div>
+        )}
         <div className="flex items-end gap-3">
           <button
             onClick={handleHandsFreeToggle}
@@ -1140,7 +1744,9 @@ export default function ChatTab() {
 
         {isHandsFree && (
           <p className="mt-2 text-center text-sm font-bold text-ink dark:text-white">
-            Hands-free mode active. Speak when the mic indicator glows.
+            {chatState.isProcessing
+              ? 'Hands-free mode active. Say "stop" at any time to stop me.'
+              : "Hands-free mode active. Speak when the mic indicator glows."}
           </p>
         )}
 
@@ -3,6 +3,15 @@
 
 import { useState, useCallback } from "react"
 import { getCurrentPageState } from "~lib/conversation-api"
+import { sendPageMessage } from "~lib/page-injection"
+import { HELP_REQUEST_SCREENSHOT_OPTIONS } from "~lib/screenshot-processing"
+import type { ScreenshotMode, ScreenshotTarget } from "~types/conversation"
+
+const SCREENSHOT_CHOICES: { mode: ScreenshotMode; icon: string; label: string }[] = [
+  { mode: "viewport", icon: "crop_free", label: "What I see" },
+  { mode: "full_page", icon: "vertical_split", label: "Whole page" },
+  { mode: "element", icon: "ads_click", label: "Point at it" }
+]
 
 interface HelpRequestPayload {
   page_url: string
@@ -18,6 +27,33 @@ export default function HelpRequestButton() {
   const [isSending, setIsSending] = useState(false)
   const [status, setStatus] = useState<"idle" | "success" | "error">("idle")
   const [statusMessage, setStatusMessage] = useState("")
+  const [screenshotMode, setScreenshotMode] = useState<ScreenshotMode>("viewport")
+  const [pickedRef, setPickedRef] = useState<string | null>(null)
+  const [isPicking, setIsPicking] = useState(false)
+
+  // Lets the user click the part of the page they're stuck on, so the screenshot shows just that
+  const handlePointAtProblem = useCallback(async () => {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) return
+    setIsPicking(true)
+    setStatus("idle")
+    try {
+      const result = await sendPageMessage<{ success: boolean; elementRef?: string }>(tab.id, {
+        action: "PICK_CAPTURE_TARGET",
+        prompt: "Click the part of the page you need help with"
+      })
+      if (result?.success && result.elementRef) {
+        setPickedRef(result.elementRef)
+        setScreenshotMode("element")
+      }
+    } catch (error) {
+      console.error("Couldn't point at the page:", error)
+      setStatus("error")
+      setStatusMessage("Pointing doesn't work on this page. Try \"What I see\" instead.")
+    } finally {
+      setIsPicking(false)
+    }
+  }, [])
 
   const handleOpenModal = useCallback(() => {
     setIsModalOpen(true)
@@ -28,6 +64,8 @@ export default function HelpRequestButton() {
   const handleCloseModal = useCallback(() => {
     setIsModalOpen(false)
     setIssueDescription("")
+    setScreenshotMode("viewport")
+    setPickedRef(null)
     setStatus("idle")
     setStatusMessage("")
   }, [])
@@ -44,7 +82,10 @@ export default function HelpRequestButton() {
 
     try {
       // Get current page state including screenshot
-      const pageData = await getCurrentPageState()
+      const capture: ScreenshotTarget = screenshotMode === "element" && pickedRef
+        ? { mode: "element", element_ref: pickedRef }
+        : { mode: screenshotMode === "element" ? "viewport" : screenshotMode }
+      const pageData = await getCurrentPageState({ screenshot: HELP_REQUEST_SCREENSHOT_OPTIONS, capture })
 
       if (!pageData) {
         throw new Error("Could not capture page information. Please try again.")
@@ -95,7 +136,7 @@ export default function HelpRequestButton() {
     } finally {
       setIsSending(false)
     }
-  }, [issueDescription, handleCloseModal])
+  }, [issueDescription, screenshotMode, pickedRef, handleCloseModal])
 
   return (
     <>
@@ -128,7 +169,7 @@ export default function HelpRequestButton() {
 
             {/* Description */}
             <p className="mb-4 text-lg text-gray-600 dark:text-gray-300">
-              Describe what you're having trouble with. A screenshot of this page will be sent to your loved one.
+              Describe what you're having trouble with. A screenshot of this page will be sent to your loved one, with personal details blacked out.
             </p>
 
             {/* Issue Text Area */}
@@ -140,6 +181,31 @@ export default function HelpRequestButton() {
               disabled={isSending}
             />
 
+            {/* What the screenshot shows */}
+            <div className="mb-4" role="radiogroup" aria-label="What the screenshot shows">
+              <p className="mb-2 text-sm font-bold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                Screenshot shows
+              </p>
+              <div className="flex gap-2">
+                {SCREENSHOT_CHOICES.map(({ mode, icon, label }) => (
+                  <button
+                    key={mode}
+                    role="radio"
+                    aria-checked={screenshotMode === mode}
+                    onClick={() => (mode === "element" ? handlePointAtProblem() : setScreenshotMode(mode))}
+                    disabled={isSending || isPicking}
+                    className={`flex flex-1 flex-col items-center rounded-xl border-3 border-ink px-1 py-2 text-sm font-bold shadow-comic transition-all disabled:opacity-50 ${
+                      screenshotMode === mode
+                        ? "bg-comic-yellow text-ink"
+                        : "bg-gray-50 text-gray-600 hover:bg-gray-100 dark:bg-slate-700 dark:text-gray-200"
+                    }`}>
+                    <span className="material-icons-outlined">{icon}</span>
+                    {mode === "element" && isPicking ? "Click the page..." : label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Status Message */}
             {status !== "idle" && (
               <div
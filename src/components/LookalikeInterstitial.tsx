@@ -0,0 +1,67 @@
+// src/components/LookalikeInterstitial.tsx
+// Covers the side panel while the current tab is held on the copycat-site warning page, so the answer
+// can be given from either place. For an address that is only similar, the page stays usable and a banner
+// across the bottom of the side panel carries the warning instead.
+import { useEffect, useState } from "react"
+import LookalikeWarningCard from "~components/LookalikeWarningCard"
+import {
+  describeLookalike,
+  followLookalikeChoice,
+  subscribeToLookalikeAlerts,
+  type LookalikeAlert
+} from "~lib/lookalike-guard"
+
+export default function LookalikeInterstitial() {
+  const [activeTabId, setActiveTabId] = useState<number | null>(null)
+  const [alerts, setAlerts] = useState<Record<string, LookalikeAlert>>({})
+
+  // Follow whichever tab the user is looking at
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      if (tab?.id) setActiveTabId(tab.id)
+    })
+    const handleActivated = (info: chrome.tabs.TabActiveInfo) => setActiveTabId(info.tabId)
+    chrome.tabs.onActivated.addListener(handleActivated)
+    return () => chrome.tabs.onActivated.removeListener(handleActivated)
+  }, [])
+
+  useEffect(() => subscribeToLookalikeAlerts(setAlerts), [])
+
+  const alert = activeTabId !== null ? alerts[activeTabId] : undefined
+  if (!alert) return null
+
+  if (!alert.blocking) {
+    return (
+      <div className="absolute inset-x-0 bottom-0 z-50 border-t-4 border-ink bg-comic-yellow p-3" role="alert">
+        <div className="mb-2 flex items-start gap-2 text-ink">
+          <span className="material-icons-outlined text-3xl text-comic-red">report</span>
+          <p className="text-lg font-bold">
+            {describeLookalike(alert)} Don't type your password or card number there.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => followLookalikeChoice(alert, "went-to-real-site")}
+            className="flex-1 rounded-lg border-4 border-ink bg-green-600 px-3 py-2 font-display text-lg uppercase text-white shadow-comic transition-transform hover:scale-105 active:scale-95">
+            Go to {alert.trusted}
+          </button>
+          <button
+            onClick={() => followLookalikeChoice(alert, "continued")}
+            className="flex-1 rounded-lg border-4 border-ink bg-white px-3 py-2 font-display text-lg uppercase text-ink shadow-comic transition-transform hover:scale-105 active:scale-95">
+            This site is fine
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex flex-col overflow-y-auto bg-comic-red p-4"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="lookalike-title">
+      <LookalikeWarningCard alert={alert} />
+    </div>
+  )
+}
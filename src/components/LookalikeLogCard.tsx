@@ -0,0 +1,64 @@
+// src/components/LookalikeLogCard.tsx
+// Settings card listing every copycat-site warning and what the user did, for a family member or caregiver to review
+import { useEffect, useState } from "react"
+import {
+  clearLookalikeLog,
+  subscribeToLookalikeLog,
+  type LookalikeAlert,
+  type LookalikeOutcome
+} from "~lib/lookalike-guard"
+
+const OUTCOME_LABELS: Record<LookalikeOutcome, string> = {
+  "pending": "Warning still showing",
+  "went-to-real-site": "Went to the real site",
+  "went-back": "Went back",
+  "continued": "Chose to continue anyway",
+  "left": "Left the page"
+}
+
+export default function LookalikeLogCard() {
+  const [log, setLog] = useState<LookalikeAlert[]>([])
+
+  useEffect(() => subscribeToLookalikeLog(setLog), [])
+
+  return (
+    <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+          Copycat Site Log
+        </h3>
+        {log.length > 0 && (
+          <button
+            onClick={clearLookalikeLog}
+            className="shrink-0 rounded-lg border-2 border-ink bg-gray-100 px-2 py-1 text-xs font-bold uppercase text-ink hover:bg-gray-200 dark:bg-slate-800 dark:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+      <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+        Every time a page pretended to be one of your trusted sites. Helpful for whoever looks after your computer.
+      </p>
+      {log.length === 0 ? (
+        <p className="mt-4 text-lg font-bold text-green-700 dark:text-green-400">No copycat sites so far.</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {[...log].reverse().map((entry) => (
+            <li
+              key={entry.id}
+              className={`rounded-lg border-2 border-ink px-3 py-2 ${
+                entry.outcome === "continued" ? "bg-red-50 dark:bg-red-900/40" : "bg-gray-50 dark:bg-slate-800"
+              }`}>
+              <div className="break-all text-lg font-bold text-ink dark:text-white">{entry.host}</div>
+              <div className="text-sm font-bold text-gray-600 dark:text-gray-300">
+                Pretending to be {entry.trusted} · {new Date(entry.detectedAt).toLocaleString()}
+              </div>
+              <div className={`text-sm font-bold ${entry.outcome === "continued" ? "text-comic-red" : "text-gray-500 dark:text-gray-400"}`}>
+                {OUTCOME_LABELS[entry.outcome]}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+// src/components/LookalikeWarningCard.tsx
+// The copycat-site warning and its three ways out; shown on the warning page that replaces the flagged tab,
+// and again over the side panel while that tab is on screen
+import { describeLookalike, followLookalikeChoice, type LookalikeAlert } from "~lib/lookalike-guard"
+
+export default function LookalikeWarningCard({ alert }: { alert: LookalikeAlert }) {
+  return (
+    <div className="rounded-lg border-4 border-ink bg-white p-5 shadow-comic-lg dark:bg-slate-800">
+      <div className="mb-3 flex items-center gap-2 text-comic-red">
+        <span className="material-icons-outlined text-5xl">gpp_bad</span>
+        <h2 id="lookalike-title" className="font-display text-4xl uppercase leading-none">
+          This is not {alert.trusted}
+        </h2>
+      </div>
+      <p className="mb-3 text-xl font-bold text-ink dark:text-white">
+        The page you tried to open only looks like your trusted site.
+      </p>
+      <p className="mb-3 rounded-lg border-2 border-ink bg-comic-yellow px-3 py-2 text-lg font-bold text-ink">
+        {describeLookalike(alert)}
+      </p>
+      <ul className="mb-5 list-disc space-y-1 pl-6 text-lg font-bold text-gray-700 dark:text-gray-200">
+        <li>Don't type your password or card number there.</li>
+        <li>Don't call any phone number it shows.</li>
+        <li>If you already typed something, call your bank using the number on your card.</li>
+      </ul>
+      <button
+        onClick={() => followLookalikeChoice(alert, "went-to-real-site")}
+        className="mb-3 flex w-full items-center justify-center gap-2 rounded-lg border-4 border-ink bg-green-600 px-4 py-3 font-display text-2xl uppercase text-white shadow-comic transition-transform hover:scale-105 active:scale-95">
+        <span className="material-icons-outlined">verified_user</span>
+        Go to the real {alert.trusted}
+      </button>
+      <button
+        onClick={() => followLookalikeChoice(alert, "went-back")}
+        className="flex w-full items-center justify-center gap-2 rounded-lg border-4 border-ink bg-white px-4 py-3 font-display text-xl uppercase text-ink shadow-comic transition-transform hover:scale-105 active:scale-95 dark:bg-slate-700 dark:text-white">
+        <span className="material-icons-outlined">arrow_back</span>
+        Go back
+      </button>
+      <button
+        onClick={() => followLookalikeChoice(alert, "continued")}
+        className="mx-auto mt-4 block text-sm font-bold text-gray-500 underline hover:text-ink dark:text-gray-400">
+        I'm sure this site is safe
+      </button>
+    </div>
+  )
+}
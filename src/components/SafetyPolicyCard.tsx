@@ -0,0 +1,203 @@
+// src/components/SafetyPolicyCard.tsx
+// Settings card for the safety policy: what the assistant may click or type, per rule, language and site
+import { useEffect, useState } from "react"
+import {
+  DEFAULT_SAFETY_POLICY,
+  POLICY_LANGUAGES,
+  POLICY_RULES,
+  getRuleOutcome,
+  loadSafetyPolicy,
+  saveSafetyPolicy,
+  type PolicyOutcome,
+  type SafetyPolicy
+} from "~lib/safety-policy"
+
+const OUTCOME_CHOICES: { id: PolicyOutcome; label: string; color: string }[] = [
+  { id: "allow", label: "Allow", color: "bg-green-400" },
+  { id: "confirm", label: "Ask me", color: "bg-comic-yellow" },
+  { id: "block", label: "Never", color: "bg-comic-red text-white" }
+]
+
+function OutcomePicker({
+  value,
+  onChange,
+  label
+}: {
+  value: PolicyOutcome
+  onChange: (outcome: PolicyOutcome) => void
+  label: string
+}) {
+  return (
+    <div className="flex shrink-0 overflow-hidden rounded-lg border-2 border-ink" role="radiogroup" aria-label={label}>
+      {OUTCOME_CHOICES.map((choice) => (
+        <button
+          key={choice.id}
+          role="radio"
+          aria-checked={value === choice.id}
+          onClick={() => onChange(choice.id)}
+          className={`px-2 py-1 text-xs font-bold uppercase ${
+            value === choice.id ? choice.color : "bg-white text-gray-500 dark:bg-slate-800 dark:text-gray-400"
+          }`}>
+          {choice.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default function SafetyPolicyCard() {
+  const [policy, setPolicy] = useState<SafetyPolicy>(DEFAULT_SAFETY_POLICY)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [newDomain, setNewDomain] = useState("")
+  const [newDomainRule, setNewDomainRule] = useState("")
+  const [newDomainOutcome, setNewDomainOutcome] = useState<PolicyOutcome>("confirm")
+
+  useEffect(() => {
+    loadSafetyPolicy().then((loaded) => {
+      setPolicy(loaded)
+      setIsLoaded(true)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) saveSafetyPolicy(policy)
+  }, [isLoaded, policy])
+
+  const addDomainOverride = () => {
+    const domain = newDomain.trim().toLowerCase().replace(/^https?:\/\//, "").split("/")[0].replace(/^www\./, "")
+    if (!domain) return
+    const ruleId = newDomainRule || undefined
+    setPolicy((p) => ({
+      ...p,
+      domainOverrides: [
+        ...p.domainOverrides.filter((o) => o.domain !== domain || o.ruleId !== ruleId),
+        { domain, outcome: newDomainOutcome, ...(ruleId && { ruleId }) }
+      ]
+    }))
+    setNewDomain("")
+  }
+
+  return (
+    <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+      <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+        Safety Rules
+      </h3>
+      <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+        Choose what your hero may do on its own, what it asks you about first, and what it never touches.
+      </p>
+
+      {/* Rules */}
+      <ul className="mt-4 space-y-3">
+        {POLICY_RULES.map((rule) => (
+          <li key={rule.id} className="flex items-center justify-between gap-3">
+            <span className="text-base font-bold leading-tight text-ink dark:text-white">{rule.label}</span>
+            <OutcomePicker
+              label={rule.label}
+              value={getRuleOutcome(policy, rule)}
+              onChange={(outcome) =>
+                setPolicy((p) => ({ ...p, ruleOutcomes: { ...p.ruleOutcomes, [rule.id]: outcome } }))
+              }
+            />
+          </li>
+        ))}
+      </ul>
+
+      {/* Languages */}
+      <p className="mt-5 text-sm font-bold uppercase tracking-wide text-gray-600 dark:text-gray-300">
+        Recognise buttons in
+      </p>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {POLICY_LANGUAGES.map((language) => {
+          const active = policy.languages.includes(language.id)
+          return (
+            <button
+              key={language.id}
+              aria-pressed={active}
+              onClick={() =>
+                setPolicy((p) => ({
+                  ...p,
+                  languages: active
+                    ? p.languages.filter((l) => l !== language.id)
+                    : [...p.languages, language.id]
+                }))
+              }
+              className={`rounded-full border-2 border-ink px-3 py-1 text-sm font-bold ${
+                active ? "bg-comic-yellow text-ink" : "bg-white text-gray-500 dark:bg-slate-800 dark:text-gray-400"
+              }`}>
+              {language.label}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Per-site overrides */}
+      <p className="mt-5 text-sm font-bold uppercase tracking-wide text-gray-600 dark:text-gray-300">
+        Special rules for a site
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addDomainOverride()
+          }}
+          placeholder="e.g. mybank.com"
+          aria-label="Site for a special rule"
+          className="min-w-0 flex-1 rounded-lg border-4 border-ink bg-white px-3 py-2 text-lg font-bold text-ink dark:bg-slate-800 dark:text-white"
+        />
+        <select
+          value={newDomainRule}
+          onChange={(e) => setNewDomainRule(e.target.value)}
+          aria-label="Which actions the site rule covers"
+          className="rounded-lg border-4 border-ink bg-white px-2 py-2 text-sm font-bold text-ink dark:bg-slate-800 dark:text-white">
+          <option value="">Everything</option>
+          {POLICY_RULES.map((rule) => (
+            <option key={rule.id} value={rule.id}>{rule.label}</option>
+          ))}
+        </select>
+        <OutcomePicker label="Rule for this site" value={newDomainOutcome} onChange={setNewDomainOutcome} />
+        <button
+          onClick={addDomainOverride}
+          className="shrink-0 rounded-lg border-4 border-ink bg-comic-yellow px-4 py-2 font-display text-lg uppercase text-ink shadow-comic transition-transform hover:scale-105 active:scale-95">
+          Add
+        </button>
+      </div>
+      {policy.domainOverrides.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {policy.domainOverrides.map((override) => {
+            const rule = POLICY_RULES.find((r) => r.id === override.ruleId)
+            const choice = OUTCOME_CHOICES.find((c) => c.id === override.outcome)
+            return (
+              <li
+                key={`${override.domain}-${override.ruleId ?? "all"}`}
+                className="flex items-center justify-between rounded-lg border-2 border-ink bg-gray-50 px-3 py-2 dark:bg-slate-800">
+                <span className="text-base font-bold text-ink dark:text-white">
+                  {override.domain}
+                  <span className="ml-2 text-sm text-gray-600 dark:text-gray-300">
+                    {rule ? `${rule.label}: ` : "Everything: "}
+                    {choice?.label}
+                  </span>
+                </span>
+                <button
+                  onClick={() =>
+                    setPolicy((p) => ({ ...p, domainOverrides: p.domainOverrides.filter((o) => o !== override) }))
+                  }
+                  aria-label={`Remove rule for ${override.domain}`}
+                  className="flex items-center text-comic-red hover:scale-110">
+                  <span className="material-icons-outlined">delete</span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={() => setPolicy(DEFAULT_SAFETY_POLICY)}
+        className="mt-4 text-sm font-bold uppercase tracking-wide text-gray-600 underline dark:text-gray-300">
+        Restore safety defaults
+      </button>
+    </div>
+  )
+}
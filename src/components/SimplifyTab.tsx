@@ -4,6 +4,7 @@
 import { useState } from "react"
 import { api } from "~lib/api"
 import { getCurrentPageState } from "~lib/conversation-api"
+import SiteTidyCard from "~components/SiteTidyCard"
 
 interface SimplificationPreset {
   id: string
@@ -67,6 +68,8 @@ interface SimplificationResult {
 
 export default function SimplifyTab() {
   const [isSimplified, setIsSimplified] = useState(false)
+  // Tab the simplified view was put on, so removing it works after the user switches tabs
+  const [simplifiedTabId, setSimplifiedTabId] = useState<number | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [customPrompt, setCustomPrompt] = useState("")
   const [message, setMessage] = useState("")
@@ -78,8 +81,17 @@ export default function SimplifyTab() {
     setMessage("")
 
     try {
+      // Pin the tab now: the reply takes a while and the user may switch tabs in the meantime
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      const tabId = tab?.id
+      if (!tabId) {
+        setError("No active tab")
+        setIsProcessing(false)
+        return
+      }
+
       // Get current page state
-      const pageData = await getCurrentPageState()
+      const pageData = await getCurrentPageState({ tabId })
       if (!pageData) {
         setError("Could not capture page state. Make sure you're on a webpage.")
         setIsProcessing(false)
@@ -100,31 +112,23 @@ export default function SimplifyTab() {
 
       const result = response.data as SimplificationResult
 
-      // Apply simplification overlay to the page
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-        const tabId = tabs[0]?.id
-        if (!tabId) {
-          setError("No active tab")
-          setIsProcessing(false)
-          return
+      // Apply simplification overlay to the page it was made from
+      chrome.tabs.sendMessage(tabId, {
+        action: "APPLY_SIMPLIFICATION",
+        content: {
+          title: result.title,
+          sections: result.sections,
+          message: result.message
         }
-
-        chrome.tabs.sendMessage(tabId, {
-          action: "APPLY_SIMPLIFICATION",
-          content: {
-            title: result.title,
-            sections: result.sections,
-            message: result.message
-          }
-        }, (res) => {
-          if (chrome.runtime.lastError) {
-            setError(chrome.runtime.lastError.message || "Failed to apply")
-          } else {
-            setMessage(result.message || "Page simplified!")
-            setIsSimplified(true)
-          }
-          setIsProcessing(false)
-        })
+      }, (res) => {
+        if (chrome.runtime.lastError) {
+          setError(chrome.runtime.lastError.message || "Failed to apply")
+        } else {
+          setMessage(result.message || "Page simplified!")
+          setIsSimplified(true)
+          setSimplifiedTabId(tabId)
+        }
+        setIsProcessing(false)
       })
     } catch (err) {
       setError("An error occurred")
@@ -134,11 +138,14 @@ export default function SimplifyTab() {
 
   const removeSimplification = () => {
     chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      const tabId = tabs[0]?.id
+      const tabId = simplifiedTabId ?? tabs[0]?.id
       if (!tabId) return
 
       chrome.tabs.sendMessage(tabId, { action: "REMOVE_SIMPLIFICATION" }, () => {
+        // The tab may have been closed since; there's nothing left to remove then
+        void chrome.runtime.lastError
         setIsSimplified(false)
+        setSimplifiedTabId(null)
         setMessage("")
       })
     })
@@ -255,6 +262,9 @@ export default function SimplifyTab() {
           </div>
         </div>
 
+        {/* Per-site rules the user teaches by pointing */}
+        <SiteTidyCard />
+
         {/* Tips */}
         <div className="rounded-lg border-2 border-dashed border-gray-300 bg-gray-50 p-4 dark:border-gray-600 dark:bg-slate-700">
           <h4 className="mb-2 flex items-center gap-2 font-bold text-gray-700 dark:text-gray-200">
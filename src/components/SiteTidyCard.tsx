@@ -0,0 +1,173 @@
+// src/components/SiteTidyCard.tsx
+// Point at things on the page to hide them on every visit, or bring them back
+
+import { useEffect, useState } from "react"
+import {
+  addClutterRule,
+  getRuleOrigin,
+  removeClutterRule,
+  subscribeToClutterRules,
+  type ClutterRule
+} from "~lib/clutter-rules"
+import { sendPageMessage } from "~lib/page-injection"
+import type { PickedClutter } from "~lib/page-actions"
+
+type PickMode = "hide" | "restore"
+
+async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
+  return tabs[0]
+}
+
+function toRule(picked: PickedClutter, action: ClutterRule["action"]): ClutterRule {
+  return { selector: picked.selector, label: picked.label, action, createdAt: new Date().toISOString() }
+}
+
+export default function SiteTidyCard() {
+  const [origin, setOrigin] = useState<string | null>(null)
+  const [rules, setRules] = useState<ClutterRule[]>([])
+  const [picking, setPicking] = useState<PickMode | null>(null)
+  const [status, setStatus] = useState("")
+
+  // Follow the tab the user is looking at
+  useEffect(() => {
+    const refresh = () => {
+      getActiveTab().then((tab) => setOrigin(getRuleOrigin(tab?.url)))
+    }
+    const handleUpdated = (_tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (changeInfo.url) refresh()
+    }
+
+    refresh()
+    chrome.tabs.onActivated.addListener(refresh)
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    return () => {
+      chrome.tabs.onActivated.removeListener(refresh)
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+    }
+  }, [])
+
+  useEffect(() => {
+    setRules([])
+    setStatus("")
+    if (!origin) return
+    return subscribeToClutterRules(origin, setRules)
+  }, [origin])
+
+  const startPicking = async (mode: PickMode) => {
+    const tab = await getActiveTab()
+    const tabOrigin = getRuleOrigin(tab?.url)
+    if (!tab?.id || !tabOrigin) return
+
+    setPicking(mode)
+    setStatus(mode === "hide" ? "Now click the thing on the page you want gone." : "Now click the outlined thing you want back.")
+
+    try {
+      const result = await sendPageMessage<{ success: boolean; message: string; picked?: PickedClutter }>(
+        tab.id,
+        { action: "PICK_CLUTTER", mode }
+      )
+      const picked = result?.picked
+      if (!result?.success || !picked) {
+        setStatus(result?.message === "Cancelled" ? "" : result?.message || "")
+        return
+      }
+
+      if (mode === "hide") {
+        await addClutterRule(tabOrigin, toRule(picked, "hide"))
+        setStatus(`Hidden on every visit: "${picked.label}"`)
+      } else if (picked.hiddenBy === "site-rule") {
+        await removeClutterRule(tabOrigin, picked.selector)
+        setStatus(`Brought back: "${picked.label}"`)
+      } else {
+        // Hidden by the automatic tidy-up; remember not to hide it here again
+        await addClutterRule(tabOrigin, toRule(picked, "keep"))
+        setStatus(`Brought back, and I'll leave it alone from now on: "${picked.label}"`)
+      }
+    } catch (error) {
+      console.error("Element picking failed:", error)
+      setStatus("I can't work on this page. Try a regular website.")
+    } finally {
+      setPicking(null)
+    }
+  }
+
+  const cancelPicking = async () => {
+    const tab = await getActiveTab()
+    if (tab?.id) {
+      sendPageMessage(tab.id, { action: "CANCEL_PICKER" }).catch(() => {})
+    }
+  }
+
+  if (!origin) return null
+
+  const host = new URL(origin).hostname.replace(/^www\./, "")
+
+  return (
+    <div>
+      <h3 className="mb-3 font-display text-lg text-ink dark:text-white">Tidy {host}</h3>
+      <p className="mb-3 text-sm text-gray-600 dark:text-gray-300">
+        Point at things you never want to see on this site. They'll stay hidden every time you visit.
+      </p>
+
+      {picking ? (
+        <button
+          onClick={cancelPicking}
+          className="flex w-full items-center justify-center gap-2 rounded-lg border-2 border-ink bg-comic-yellow py-3 font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover"
+        >
+          <span className="material-icons-outlined">close</span>
+          Stop Pointing
+        </button>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => startPicking("hide")}
+            className="flex items-center justify-center gap-2 rounded-lg border-2 border-ink bg-white py-3 font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover dark:bg-slate-700 dark:text-white"
+          >
+            <span className="material-icons-outlined text-purple-600 dark:text-purple-400">visibility_off</span>
+            Hide This
+          </button>
+          <button
+            onClick={() => startPicking("restore")}
+            className="flex items-center justify-center gap-2 rounded-lg border-2 border-ink bg-white py-3 font-bold text-ink shadow-comic transition-all hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-comic-hover dark:bg-slate-700 dark:text-white"
+          >
+            <span className="material-icons-outlined text-purple-600 dark:text-purple-400">visibility</span>
+            Bring Back
+          </button>
+        </div>
+      )}
+
+      {status && (
+        <p className="mt-3 rounded-lg border-2 border-blue-500 bg-blue-100 p-3 text-blue-700 dark:bg-blue-900 dark:text-blue-200">
+          {status}
+        </p>
+      )}
+
+      {rules.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {rules.map((rule) => (
+            <li
+              key={rule.selector}
+              className="flex items-center justify-between gap-2 rounded-lg border-2 border-ink bg-gray-50 px-3 py-2 dark:bg-slate-700"
+            >
+              <span className="min-w-0 truncate text-sm font-bold text-ink dark:text-white">
+                <span className="material-icons-outlined mr-1 align-middle text-base text-gray-500 dark:text-gray-400">
+                  {rule.action === "hide" ? "visibility_off" : "push_pin"}
+                </span>
+                {rule.action === "hide" ? "Hidden: " : "Always shown: "}
+                {rule.label}
+              </span>
+              <button
+                onClick={() => removeClutterRule(origin, rule.selector)}
+                className="shrink-0 rounded-lg border-2 border-ink bg-white px-2 py-1 text-xs font-bold text-ink hover:bg-gray-100 dark:bg-slate-800 dark:text-white"
+                aria-label={`Forget the rule for ${rule.label}`}
+              >
+                {rule.action === "hide" ? "Bring back" : "Forget"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
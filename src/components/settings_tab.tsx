@@ -1,34 +1,13 @@
 // src/components/SettingsTab.tsx
 import { useEffect, useState } from "react"
-
-type SettingsState = {
-  highContrast: boolean
-  voiceAssist: boolean
-  largeTextBoost: boolean
-}
-
-const DEFAULTS: SettingsState = {
-  highContrast: true,
-  voiceAssist: false,
-  largeTextBoost: false
-}
-
-async function loadSettings(): Promise<SettingsState> {
-  try {
-    const res = await chrome.storage.sync.get(["settings"])
-    return { ...DEFAULTS, ...(res.settings ?? {}) }
-  } catch {
-    return DEFAULTS
-  }
-}
-
-async function saveSettings(settings: SettingsState) {
-  try {
-    await chrome.storage.sync.set({ settings })
-  } catch {
-    // ignore for hackathon
-  }
-}
+import LookalikeLogCard from "~components/LookalikeLogCard"
+import SafetyPolicyCard from "~components/SafetyPolicyCard"
+import {
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  type SettingsState
+} from "~lib/settings"
 
 function LeverToggle({
   active,
@@ -54,16 +33,54 @@ function LeverToggle({
   )
 }
 
+// Reduces whatever the user typed ("https://www.example.com/page") to a bare domain
+function toDomain(input: string): string {
+  const trimmed = input.trim().toLowerCase()
+  if (!trimmed) return ""
+  try {
+    return new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`).hostname.replace(/^www\./, "")
+  } catch {
+    return ""
+  }
+}
+
 export default function SettingsTab() {
-  const [settings, setSettings] = useState<SettingsState>(DEFAULTS)
+  const [settings, setSettings] = useState<SettingsState>(DEFAULT_SETTINGS)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [newSite, setNewSite] = useState("")
+
+  const addAllowedSite = () => {
+    const domain = toDomain(newSite)
+    if (!domain) return
+    setSettings((s) =>
+      s.allowedSites.includes(domain) ? s : { ...s, allowedSites: [...s.allowedSites, domain] }
+    )
+    setNewSite("")
+  }
+
+  const [newTrustedSite, setNewTrustedSite] = useState("")
+
+  const addTrustedSite = () => {
+    const domain = toDomain(newTrustedSite)
+    if (!domain) return
+    setSettings((s) =>
+      s.trustedSites.includes(domain) ? s : { ...s, trustedSites: [...s.trustedSites, domain] }
+    )
+    setNewTrustedSite("")
+  }
 
   useEffect(() => {
-    loadSettings().then(setSettings)
+    loadSettings().then((loaded) => {
+      setSettings(loaded)
+      setIsLoaded(true)
+    })
   }, [])
 
+  // Only persist once the stored values are in, otherwise the defaults would
+  // overwrite them (and flash across every open tab) on mount
   useEffect(() => {
-    saveSettings(settings)
-  }, [settings])
+    if (isLoaded) saveSettings(settings)
+  }, [isLoaded, settings])
 
   return (
     <div className="comic-scroll bg-dots flex-1 space-y-6 overflow-y-auto border-t-4 border-ink bg-white bg-halftone-light p-6 dark:bg-slate-800 dark:bg-halftone-dark">
@@ -103,10 +120,13 @@ export default function SettingsTab() {
 
           <div className="relative shrink-0">
             <button
-              className="group/btn flex h-14 w-14 items-center justify-center rounded-full border-4 border-ink bg-comic-yellow shadow-comic transition-transform hover:scale-105 active:scale-95"
+              className={`group/btn flex h-14 w-14 items-center justify-center rounded-full border-4 border-ink shadow-comic transition-transform hover:scale-105 active:scale-95 ${
+                settings.largeTextBoost ? "bg-green-400" : "bg-comic-yellow"
+              }`}
               onClick={() =>
                 setSettings((s) => ({ ...s, largeTextBoost: !s.largeTextBoost }))
               }
+              aria-pressed={settings.largeTextBoost}
               aria-label="Toggle large text">
               <div className="h-8 w-8 rounded-full bg-white/40 blur-sm group-hover/btn:animate-pulse" />
               <span className="absolute font-bold text-ink material-icons-outlined">
@@ -139,12 +159,178 @@ export default function SettingsTab() {
         </div>
       </div>
 
+      {/* Ask Before Each Step */}
+      <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+        <div className="mb-2 flex items-start justify-between">
+          <div className="flex-1 pr-4">
+            <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+              Ask Before Each Step
+            </h3>
+            <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+              Your hero points at each button first and waits for your OK, so you can learn the way!
+            </p>
+          </div>
+          <div className="shrink-0">
+            <LeverToggle
+              active={settings.askBeforeEachStep}
+              onToggle={() =>
+                setSettings((s) => ({ ...s, askBeforeEachStep: !s.askBeforeEachStep }))
+              }
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Cookie banners */}
+      <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+        <div className="mb-2 flex items-start justify-between">
+          <div className="flex-1 pr-4">
+            <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+              Clear Cookie Pop-ups
+            </h3>
+            <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+              Your hero says "No thanks" to cookie questions for you, picking the most private choice, and tells you what it did.
+            </p>
+          </div>
+          <div className="shrink-0">
+            <LeverToggle
+              active={settings.autoHandleConsent}
+              onToggle={() =>
+                setSettings((s) => ({ ...s, autoHandleConsent: !s.autoHandleConsent }))
+              }
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Scam warnings */}
+      <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+        <div className="mb-2 flex items-start justify-between">
+          <div className="flex-1 pr-4">
+            <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+              Scam Alarm
+            </h3>
+            <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+              Your hero looks out for fake virus alerts, gift-card demands and copycat bank sites, and warns you in big letters. Works without the internet.
+            </p>
+          </div>
+          <div className="shrink-0">
+            <LeverToggle
+              active={settings.scamWarnings}
+              onToggle={() =>
+                setSettings((s) => ({ ...s, scamWarnings: !s.scamWarnings }))
+              }
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Safety rules for clicks and form fills */}
+      <SafetyPolicyCard />
+
+      {/* Sites the assistant may open */}
+      <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+        <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+          Sites I May Open
+        </h3>
+        <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+          Your hero can always move around the site you're on. Add other sites here to let it open them for you.
+        </p>
+        <div className="mt-4 flex gap-2">
+          <input
+            type="text"
+            value={newSite}
+            onChange={(e) => setNewSite(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addAllowedSite()
+            }}
+            placeholder="e.g. medicare.gov"
+            aria-label="Site to allow"
+            className="min-w-0 flex-1 rounded-lg border-4 border-ink bg-white px-3 py-2 text-lg font-bold text-ink dark:bg-slate-800 dark:text-white"
+          />
+          <button
+            onClick={addAllowedSite}
+            className="shrink-0 rounded-lg border-4 border-ink bg-comic-yellow px-4 py-2 font-display text-lg uppercase text-ink shadow-comic transition-transform hover:scale-105 active:scale-95">
+            Add
+          </button>
+        </div>
+        {settings.allowedSites.length > 0 && (
+          <ul className="mt-4 space-y-2">
+            {settings.allowedSites.map((site) => (
+              <li
+                key={site}
+                className="flex items-center justify-between rounded-lg border-2 border-ink bg-gray-50 px-3 py-2 dark:bg-slate-800">
+                <span className="text-lg font-bold text-ink dark:text-white">{site}</span>
+                <button
+                  onClick={() =>
+                    setSettings((s) => ({ ...s, allowedSites: s.allowedSites.filter((d) => d !== site) }))
+                  }
+                  aria-label={`Remove ${site}`}
+                  className="flex items-center text-comic-red hover:scale-110">
+                  <span className="material-icons-outlined">delete</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Sites copycats imitate */}
+      <div className="group relative overflow-hidden rounded-lg border-4 border-ink bg-white p-5 shadow-comic dark:bg-slate-700">
+        <h3 className="font-display mb-1 text-2xl uppercase tracking-wider text-ink dark:text-white">
+          My Trusted Sites
+        </h3>
+        <p className="text-sm font-bold leading-tight text-gray-600 dark:text-gray-300">
+          Add your bank, pharmacy and email. If a page ever pretends to be one of them, your hero stops you before you type anything.
+        </p>
+        <div className="mt-4 flex gap-2">
+          <input
+            type="text"
+            value={newTrustedSite}
+            onChange={(e) => setNewTrustedSite(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTrustedSite()
+            }}
+            placeholder="e.g. chase.com"
+            aria-label="Trusted site"
+            className="min-w-0 flex-1 rounded-lg border-4 border-ink bg-white px-3 py-2 text-lg font-bold text-ink dark:bg-slate-800 dark:text-white"
+          />
+          <button
+            onClick={addTrustedSite}
+            className="shrink-0 rounded-lg border-4 border-ink bg-comic-yellow px-4 py-2 font-display text-lg uppercase text-ink shadow-comic transition-transform hover:scale-105 active:scale-95">
+            Add
+          </button>
+        </div>
+        {settings.trustedSites.length > 0 && (
+          <ul className="mt-4 space-y-2">
+            {settings.trustedSites.map((site) => (
+              <li
+                key={site}
+                className="flex items-center justify-between rounded-lg border-2 border-ink bg-gray-50 px-3 py-2 dark:bg-slate-800">
+                <span className="text-lg font-bold text-ink dark:text-white">{site}</span>
+                <button
+                  onClick={() =>
+                    setSettings((s) => ({ ...s, trustedSites: s.trustedSites.filter((d) => d !== site) }))
+                  }
+                  aria-label={`Remove ${site}`}
+                  className="flex items-center text-comic-red hover:scale-110">
+                  <span className="material-icons-outlined">delete</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Warnings for the caregiver */}
+      <LookalikeLogCard />
+
       {/* Reset */}
       <div className="relative flex flex-col items-center pb-4 pt-8">
         <div className="group relative">
           <button
             className="relative z-10 border-4 border-ink bg-comic-red px-10 py-4 font-display text-3xl uppercase tracking-tighter text-white shadow-comic-lg transition-all hover:translate-x-1 hover:translate-y-1 hover:shadow-comic active:bg-red-700"
-            onClick={() => setSettings(DEFAULTS)}>
+            onClick={() => setSettings(DEFAULT_SETTINGS)}>
             Reset to Default
           </button>
         </div>
@@ -1,116 +1,12 @@
 import cssText from "data-text:~style.css"
 import type { PlasmoCSConfig } from "plasmo"
-import {
-  highlightElement,
-  removeHighlights,
-  removeClutter,
-  restoreClutter,
-  magnifyText,
-  resetMagnification,
-  scrollToView,
-  clickElement,
-  fillFormField,
-  selectDropdown,
-  distillDOM,
-  applySimplification,
-  removeSimplification
-} from "~lib/page-actions"
+import { registerPageRuntime } from "~lib/page-runtime"
 
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"]
 }
 
-// Listen for messages from background script or sidepanel
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.action === "EXTRACT_HTML") {
-    const html = document.documentElement.outerHTML
-    sendResponse({ html, url: window.location.href })
-    return true
-  }
-
-  // Page action handlers
-  if (request.action === "HIGHLIGHT_ELEMENT") {
-    const result = highlightElement(request.selector)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "REMOVE_HIGHLIGHTS") {
-    const result = removeHighlights()
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "REMOVE_CLUTTER") {
-    const result = removeClutter()
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "RESTORE_CLUTTER") {
-    const result = restoreClutter()
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "MAGNIFY_TEXT") {
-    const result = magnifyText(request.selector, request.scaleFactor)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "RESET_MAGNIFICATION") {
-    const result = resetMagnification()
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "SCROLL_TO_VIEW") {
-    const result = scrollToView(request.selector)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "CLICK_ELEMENT") {
-    const result = clickElement(request.selector)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "FILL_FORM_FIELD") {
-    const result = fillFormField(request.selector, request.value)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "SELECT_DROPDOWN") {
-    const result = selectDropdown(request.selector, request.value)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "DISTILL_DOM") {
-    const result = distillDOM()
-    sendResponse(result)
-    return true
-  }
-
-  // Page Simplification handlers
-  if (request.action === "APPLY_SIMPLIFICATION") {
-    // New overlay-based simplification expects content object with title, sections, message
-    const result = applySimplification(request.content)
-    sendResponse(result)
-    return true
-  }
-
-  if (request.action === "REMOVE_SIMPLIFICATION") {
-    const result = removeSimplification()
-    sendResponse(result)
-    return true
-  }
-
-  return true
-})
+registerPageRuntime()
 
 /**
  * Generates a style element with adjusted CSS to work correctly within a Shadow DOM.
@@ -0,0 +1,328 @@
+// src/lib/accessibility-snapshot.ts
+// Accessibility-tree view of the page: what a screen reader would announce for each element.
+// Catches custom widgets (div[role=checkbox], ARIA listboxes, toggles) that the distiller's tag list misses.
+
+import { getElementRef, isElementVisible } from "~lib/dom-distiller"
+import { collectRoots } from "~lib/dom-roots"
+import type { AccessibilityNode, AccessibilitySnapshot, AccessibilityStates } from "~types/conversation"
+
+// Cap on nodes per snapshot so huge pages don't swamp the request
+const MAX_NODES = 400
+
+const LANDMARK_ROLES = ["banner", "navigation", "main", "complementary", "contentinfo", "search", "form", "region"]
+
+// Roles worth reporting; generic containers, lists and table cells are left out to keep the snapshot small
+const REPORTED_ROLES = new Set([
+  ...LANDMARK_ROLES,
+  "heading", "img",
+  "button", "link", "checkbox", "radio", "switch",
+  "textbox", "searchbox", "combobox", "listbox", "option", "spinbutton", "slider",
+  "menu", "menubar", "menuitem", "menuitemcheckbox", "menuitemradio",
+  "tab", "tablist", "tabpanel", "tree", "treeitem",
+  "dialog", "alertdialog", "alert", "status", "progressbar"
+])
+
+// ============================================
+// ROLE & NAME COMPUTATION
+// ============================================
+
+/**
+ * Returns the role from the element's ARIA role attribute, or the implicit role of its tag
+ */
+function getRole(element: Element): string | null {
+  const explicit = element.getAttribute("role")?.trim().split(/\s+/)[0]
+  if (explicit) return explicit
+
+  const tag = element.tagName.toLowerCase()
+  switch (tag) {
+    case "a":
+    case "area":
+      return element.hasAttribute("href") ? "link" : null
+    case "button":
+    case "summary":
+      return "button"
+    case "input": {
+      const input = element as HTMLInputElement
+      switch (input.type) {
+        case "hidden":
+          return null
+        case "checkbox":
+          return "checkbox"
+        case "radio":
+          return "radio"
+        case "range":
+          return "slider"
+        case "number":
+          return "spinbutton"
+        case "search":
+          return input.hasAttribute("list") ? "combobox" : "searchbox"
+        case "submit":
+        case "button":
+        case "reset":
+        case "image":
+          return "button"
+        default:
+          return input.hasAttribute("list") ? "combobox" : "textbox"
+      }
+    }
+    case "textarea":
+      return "textbox"
+    case "select": {
+      const select = element as HTMLSelectElement
+      return select.multiple || select.size > 1 ? "listbox" : "combobox"
+    }
+    case "option":
+      return "option"
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6":
+      return "heading"
+    case "img":
+      return element.getAttribute("alt") === "" ? null : "img"
+    case "nav":
+      return "navigation"
+    case "main":
+      return "main"
+    case "aside":
+      return "complementary"
+    case "form":
+      return "form"
+    case "search":
+      return "search"
+    case "dialog":
+      return "dialog"
+    case "progress":
+      return "progressbar"
+    case "section":
+      // Sections are only landmarks when they have a name
+      return element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby") ? "region" : null
+    case "header":
+    case "footer":
+      // Page-level header/footer only; inside an article or section they're plain containers
+      if (element.parentElement?.closest("article, aside, main, nav, section")) return null
+      return tag === "header" ? "banner" : "contentinfo"
+  }
+
+  if ((element as HTMLElement).isContentEditable && !element.parentElement?.isContentEditable) {
+    return "textbox"
+  }
+  return null
+}
+
+function cleanText(text: string | null | undefined, maxLength: number = 100): string {
+  const cleaned = (text || "").trim().replace(/\s+/g, " ")
+  return cleaned.length <= maxLength ? cleaned : cleaned.substring(0, maxLength) + "..."
+}
+
+/**
+ * Approximates the accessible name: aria-labelledby, aria-label, labels, alt, then visible text
+ */
+function getAccessibleName(element: Element, role: string): string {
+  const root = element.getRootNode() as Document | ShadowRoot
+
+  const labelledBy = element.getAttribute("aria-labelledby")
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => root.getElementById?.(id)?.textContent || "")
+      .join(" ")
+    if (text.trim()) return cleanText(text)
+  }
+
+  const ariaLabel = element.getAttribute("aria-label")
+  if (ariaLabel?.trim()) return cleanText(ariaLabel)
+
+  const labels = (element as HTMLInputElement).labels
+  if (labels && labels.length > 0) {
+    const text = Array.from(labels).map((label) => label.textContent || "").join(" ")
+    if (text.trim()) return cleanText(text)
+  }
+
+  const tag = element.tagName
+  if (tag === "IMG" || (tag === "INPUT" && (element as HTMLInputElement).type === "image")) {
+    const alt = element.getAttribute("alt")
+    if (alt?.trim()) return cleanText(alt)
+  }
+
+  if (tag === "INPUT" && ["submit", "button", "reset"].includes((element as HTMLInputElement).type)) {
+    const value = (element as HTMLInputElement).value
+    if (value) return cleanText(value)
+  }
+
+  // Widgets and headings are named by their content; landmarks and text fields are not
+  const namedFromContent = !LANDMARK_ROLES.includes(role) &&
+    !["textbox", "searchbox", "combobox", "listbox", "img", "dialog", "alertdialog", "tablist", "tree", "menu", "menubar"].includes(role)
+  if (namedFromContent) {
+    const text = cleanText((element as HTMLElement).innerText ?? element.textContent)
+    if (text) return text
+  }
+
+  return cleanText(element.getAttribute("title") || element.getAttribute("placeholder"))
+}
+
+/**
+ * Reads an ARIA boolean attribute, returning undefined when it isn't set
+ */
+function ariaFlag(element: Element, name: string): boolean | undefined {
+  const value = element.getAttribute(name)
+  if (value === null) return undefined
+  return value === "true"
+}
+
+function getStates(element: Element, role: string): AccessibilityStates {
+  const input = element as HTMLInputElement
+  const states: AccessibilityStates = {}
+
+  if (role === "checkbox" || role === "radio" || role === "switch" || role.startsWith("menuitem")) {
+    const ariaChecked = element.getAttribute("aria-checked")
+    if (ariaChecked === "mixed") {
+      states.checked = "mixed"
+    } else if (ariaChecked !== null) {
+      states.checked = ariaChecked === "true"
+    } else if (element.tagName === "INPUT") {
+      states.checked = input.indeterminate ? "mixed" : input.checked
+    }
+  }
+
+  const expanded = ariaFlag(element, "aria-expanded")
+  if (expanded !== undefined) {
+    states.expanded = expanded
+  } else if (element.tagName === "SUMMARY") {
+    states.expanded = Boolean(element.parentElement?.hasAttribute("open"))
+  }
+
+  const selected = ariaFlag(element, "aria-selected")
+  if (selected !== undefined) {
+    states.selected = selected
+  } else if (element.tagName === "OPTION") {
+    states.selected = (element as HTMLOptionElement).selected
+  }
+
+  const pressed = ariaFlag(element, "aria-pressed")
+  if (pressed !== undefined) states.pressed = pressed
+
+  if (input.disabled || ariaFlag(element, "aria-disabled")) states.disabled = true
+  if (input.required || ariaFlag(element, "aria-required")) states.required = true
+  if (input.readOnly || ariaFlag(element, "aria-readonly")) states.readonly = true
+  if (ariaFlag(element, "aria-invalid")) states.invalid = true
+
+  // Current value of editable and range widgets (never for passwords)
+  if (["textbox", "searchbox", "combobox", "spinbutton", "slider", "progressbar"].includes(role)) {
+    const valueText = element.getAttribute("aria-valuetext") || element.getAttribute("aria-valuenow")
+    if (valueText) {
+      states.value = cleanText(valueText, 50)
+    } else if (element.tagName === "SELECT") {
+      const select = element as HTMLSelectElement
+      const option = select.options[select.selectedIndex]
+      if (option) states.value = cleanText(option.textContent || option.value, 50)
+    } else if (input.value && input.type !== "password") {
+      states.value = cleanText(input.value, 50)
+    }
+  }
+
+  return states
+}
+
+function getHeadingLevel(element: Element): number | undefined {
+  const ariaLevel = parseInt(element.getAttribute("aria-level") || "", 10)
+  if (!isNaN(ariaLevel)) return ariaLevel
+  const match = /^H([1-6])$/.exec(element.tagName)
+  return match ? parseInt(match[1], 10) : 2 // ARIA default for role="heading"
+}
+
+/**
+ * Parent element, stepping out of shadow roots to their host
+ */
+function getParent(element: Element): Element | null {
+  if (element.parentElement) return element.parentElement
+  const root = element.getRootNode()
+  // nodeType rather than instanceof: shadow roots inside frames come from another realm
+  return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (root as ShadowRoot).host : null
+}
+
+/**
+ * Lists the landmarks containing an element, outermost first, e.g. ["main", "form \"Sign in\""]
+ */
+function getLandmarkPath(element: Element): string[] {
+  const path: string[] = []
+  for (let current = getParent(element); current; current = getParent(current)) {
+    const role = getRole(current)
+    if (role && LANDMARK_ROLES.includes(role)) {
+      const name = getAccessibleName(current, role)
+      path.unshift(name ? `${role} "${name}"` : role)
+    }
+  }
+  return path
+}
+
+/**
+ * True if the element is hidden from assistive technology
+ */
+function isHiddenFromAccessibility(element: Element): boolean {
+  for (let current: Element | null = element; current; current = getParent(current)) {
+    if (current.getAttribute("aria-hidden") === "true" || current.hasAttribute("inert")) return true
+  }
+  return !isElementVisible(element)
+}
+
+// ============================================
+// SNAPSHOT
+// ============================================
+
+/**
+ * Captures the accessibility tree as a flat list in document order.
+ * Each node carries the distiller's ref, so actions can target custom widgets by element_ref.
+ */
+export function snapshotAccessibilityTree(): { success: boolean; message: string; data?: AccessibilitySnapshot } {
+  try {
+    const nodes: AccessibilityNode[] = []
+    let truncated = false
+
+    outer: for (const { root, scope } of collectRoots()) {
+      for (const element of Array.from(root.querySelectorAll("*"))) {
+        const role = getRole(element)
+        if (!role || !REPORTED_ROLES.has(role)) continue
+        if (isHiddenFromAccessibility(element)) continue
+
+        const name = getAccessibleName(element, role)
+        // Unnamed images and regions add noise without telling the agent anything
+        if (!name && (role === "img" || role === "region")) continue
+
+        if (nodes.length >= MAX_NODES) {
+          truncated = true
+          break outer
+        }
+
+        const node: AccessibilityNode = {
+          ref: getElementRef(element),
+          role,
+          name
+        }
+        if (role === "heading") node.level = getHeadingLevel(element)
+
+        const states = getStates(element, role)
+        if (Object.keys(states).length > 0) node.states = states
+
+        const landmarks = getLandmarkPath(element)
+        if (landmarks.length > 0) node.landmarks = landmarks
+        if (scope.length > 0) node.scope = scope
+
+        nodes.push(node)
+      }
+    }
+
+    return {
+      success: true,
+      message: `Captured ${nodes.length} accessibility nodes${truncated ? " (truncated)" : ""}`,
+      data: {
+        url: window.location.href,
+        timestamp: new Date().toISOString(),
+        nodes,
+        truncated
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to snapshot accessibility tree"
+    }
+  }
+}
@@ -5,25 +5,50 @@ interface ApiResponse<T = any> {
   data?: T
   error?: string | any
   status?: number
+  cancelled?: boolean
+}
+
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
 // Helper to send message to background
+// Aborting the signal cancels the fetch in the background and resolves immediately
 async function sendToBackground(
   endpoint: string,
   method: ApiMethod,
   body?: any,
-  headers?: Record<string, string>
+  headers?: Record<string, string>,
+  signal?: AbortSignal
 ): Promise<ApiResponse> {
   return new Promise((resolve) => {
+    const cancelled: ApiResponse = { success: false, error: "Request cancelled", cancelled: true }
+    if (signal?.aborted) {
+      resolve(cancelled)
+      return
+    }
+
+    const requestId = generateRequestId()
+    const handleAbort = () => {
+      chrome.runtime.sendMessage({ action: "API_ABORT", requestId }, () => {
+        // Read lastError so a closed background doesn't log an unchecked error
+        void chrome.runtime.lastError
+      })
+      resolve(cancelled)
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+
     chrome.runtime.sendMessage(
       {
         action: "API_REQUEST",
+        requestId,
         endpoint,
         method,
         body,
         headers
       },
       (response) => {
+        signal?.removeEventListener("abort", handleAbort)
         if (chrome.runtime.lastError) {
           resolve({
             success: false,
@@ -39,15 +64,15 @@ async function sendToBackground(
 
 // Exposed API client
 export const api = {
-  get: <T = any>(endpoint: string, headers?: Record<string, string>) => 
-    sendToBackground(endpoint, "GET", undefined, headers),
+  get: <T = any>(endpoint: string, headers?: Record<string, string>, signal?: AbortSignal) =>
+    sendToBackground(endpoint, "GET", undefined, headers, signal),
 
-  post: <T = any>(endpoint: string, body: any, headers?: Record<string, string>) =>
-    sendToBackground(endpoint, "POST", body, headers),
+  post: <T = any>(endpoint: string, body: any, headers?: Record<string, string>, signal?: AbortSignal) =>
+    sendToBackground(endpoint, "POST", body, headers, signal),
 
-  put: <T = any>(endpoint: string, body: any, headers?: Record<string, string>) =>
-    sendToBackground(endpoint, "PUT", body, headers),
+  put: <T = any>(endpoint: string, body: any, headers?: Record<string, string>, signal?: AbortSignal) =>
+    sendToBackground(endpoint, "PUT", body, headers, signal),
 
-  delete: <T = any>(endpoint: string, headers?: Record<string, string>) =>
-    sendToBackground(endpoint, "DELETE", undefined, headers)
+  delete: <T = any>(endpoint: string, headers?: Record<string, string>, signal?: AbortSignal) =>
+    sendToBackground(endpoint, "DELETE", undefined, headers, signal)
 }
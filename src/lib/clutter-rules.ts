@@ -0,0 +1,103 @@
+// src/lib/clutter-rules.ts
+// Per-site tidy-up rules the user taught us by pointing at the page: things to always hide,
+// and things the automatic clutter remover should leave alone. Applied on every visit by the page runtime.
+
+export const CLUTTER_RULES_STORAGE_KEY = "clutter_rules"
+
+// "hide" removes the element on every visit; "keep" stops removeClutter from hiding it
+export type ClutterRuleAction = "hide" | "keep"
+
+export interface ClutterRule {
+  selector: string
+  action: ClutterRuleAction
+  label: string // What the user pointed at, in words, for the list in the side panel
+  createdAt: string
+}
+
+// Rules keyed by origin (https://www.example.com)
+export type ClutterRuleBook = Record<string, ClutterRule[]>
+
+// A site with this many rules has been tidied thoroughly; stop the list growing without bound
+const MAX_RULES_PER_SITE = 100
+
+/**
+ * The origin rules are stored under, or null for pages that aren't websites
+ */
+export function getRuleOrigin(url: string | undefined): string | null {
+  if (!url) return null
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed.origin : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads every site's rules. Kept in local storage: selectors add up past the sync quota.
+ */
+export async function loadClutterRules(): Promise<ClutterRuleBook> {
+  try {
+    const res = await chrome.storage.local.get([CLUTTER_RULES_STORAGE_KEY])
+    return res[CLUTTER_RULES_STORAGE_KEY] ?? {}
+  } catch {
+    return {}
+  }
+}
+
+async function saveClutterRules(book: ClutterRuleBook) {
+  try {
+    await chrome.storage.local.set({ [CLUTTER_RULES_STORAGE_KEY]: book })
+  } catch (error) {
+    console.error("Failed to save clutter rules:", error)
+  }
+}
+
+/**
+ * Adds a rule for the site, replacing any earlier rule for the same element
+ */
+export async function addClutterRule(origin: string, rule: ClutterRule) {
+  const book = await loadClutterRules()
+  const rules = (book[origin] ?? []).filter((r) => r.selector !== rule.selector)
+  book[origin] = [...rules, rule].slice(-MAX_RULES_PER_SITE)
+  await saveClutterRules(book)
+}
+
+export async function removeClutterRule(origin: string, selector: string) {
+  const book = await loadClutterRules()
+  const rules = (book[origin] ?? []).filter((r) => r.selector !== selector)
+  if (rules.length > 0) {
+    book[origin] = rules
+  } else {
+    delete book[origin]
+  }
+  await saveClutterRules(book)
+}
+
+/**
+ * Calls the listener with one site's rules now and again whenever they change.
+ * Returns a function that stops listening.
+ */
+export function subscribeToClutterRules(origin: string, listener: (rules: ClutterRule[]) => void): () => void {
+  let active = true
+
+  loadClutterRules().then((book) => {
+    if (active) listener(book[origin] ?? [])
+  })
+
+  const handleChange = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    if (areaName === "local" && changes[CLUTTER_RULES_STORAGE_KEY]) {
+      const book: ClutterRuleBook = changes[CLUTTER_RULES_STORAGE_KEY].newValue ?? {}
+      listener(book[origin] ?? [])
+    }
+  }
+
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => {
+    active = false
+    chrome.storage.onChanged.removeListener(handleChange)
+  }
+}
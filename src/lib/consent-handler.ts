@@ -0,0 +1,328 @@
+// src/lib/consent-handler.ts
+// Finds cookie banners and consent dialogs, turns them down with the most private choice on offer,
+// and gives the page its scrolling back
+
+import { isElementVisible } from "~lib/dom-distiller"
+import { deepQuerySelector, deepQuerySelectorAll } from "~lib/dom-roots"
+import { containsPhrase, normalizeText } from "~lib/safety-policy"
+import { recordChanges, setStyle } from "~lib/undo-journal"
+
+export interface ConsentResult {
+  success: boolean
+  message: string
+  handled: boolean // A banner was found and dealt with
+  platform?: string // The consent framework, when we recognised one
+  choice?: string // Text of the button we pressed
+  hidden?: boolean // No way to say no, so the banner was hidden instead
+  scrollUnlocked?: boolean
+}
+
+// Sent by the page to the side panel after a banner was turned down on arrival
+export interface ConsentHandledMessage {
+  action: "CONSENT_HANDLED"
+  result: ConsentResult
+  url: string
+}
+
+interface ConsentPlatform {
+  name: string
+  container: string
+  // Buttons that turn everything optional down, most private first
+  reject: string[]
+}
+
+// ============================================
+// KNOWN CONSENT FRAMEWORKS
+// ============================================
+
+const CONSENT_PLATFORMS: ConsentPlatform[] = [
+  { name: "OneTrust", container: "#onetrust-banner-sdk, #onetrust-consent-sdk", reject: ["#onetrust-reject-all-handler", ".ot-pc-refuse-all-handler"] },
+  { name: "Cookiebot", container: "#CybotCookiebotDialog", reject: ["#CybotCookiebotDialogBodyButtonDecline", "#CybotCookiebotDialogBodyLevelButtonLevelOptinDeclineAll"] },
+  { name: "Didomi", container: "#didomi-notice, #didomi-popup", reject: ["#didomi-notice-disagree-button", ".didomi-continue-without-agreeing"] },
+  { name: "Usercentrics", container: "#usercentrics-root, #usercentrics-cmp-ui", reject: ["[data-testid='uc-deny-all-button']", "#deny"] },
+  { name: "Quantcast", container: ".qc-cmp2-container", reject: [".qc-cmp2-summary-buttons button[mode='secondary']"] },
+  { name: "TrustArc", container: "#truste-consent-track, #consent_blackbar", reject: ["#truste-consent-required"] },
+  { name: "CookieYes", container: ".cky-consent-container", reject: [".cky-btn-reject"] },
+  { name: "Complianz", container: ".cmplz-cookiebanner", reject: [".cmplz-btn.cmplz-deny"] },
+  { name: "Osano", container: ".osano-cm-window", reject: [".osano-cm-denyAll", ".osano-cm-deny"] },
+  { name: "Iubenda", container: "#iubenda-cs-banner", reject: [".iubenda-cs-reject-btn"] },
+  { name: "Termly", container: "[data-tid='banner-wrapper'], #termly-code-snippet-support", reject: ["[data-tid='banner-decline']"] },
+  { name: "Klaro", container: ".klaro .cookie-notice, .klaro .cookie-modal", reject: [".cn-decline", ".cm-btn-decline"] },
+  { name: "Axeptio", container: "#axeptio_overlay", reject: ["#axeptio_btn_dismiss"] },
+  { name: "Borlabs", container: "#BorlabsCookieBox", reject: ["a[data-cookie-refuse]", "[data-borlabs-cookie-actions='reject']"] },
+  { name: "Google", container: ".fc-consent-root", reject: [".fc-cta-do-not-consent", ".fc-secondary-button"] },
+  { name: "Sourcepoint", container: "[id^='sp_message_container']", reject: [] } // Lives in a cross-origin frame
+]
+
+// ============================================
+// BUTTON WORDING - Most private first; matched as whole phrases, ignoring case and accents
+// ============================================
+
+const REJECT_ALL_PHRASES = [
+  "reject all", "reject all cookies", "decline all", "decline all cookies", "refuse all", "deny all",
+  "reject optional cookies", "decline optional cookies", "reject non-essential", "reject non essential",
+  "tout refuser", "refuser tout", "refuser tous les cookies", "alle ablehnen", "alles ablehnen",
+  "rechazar todo", "rechazar todas", "rifiuta tutto", "rifiuta tutti", "alles weigeren", "alle weigeren",
+  "rejeitar todos", "recusar todos"
+]
+
+const NECESSARY_ONLY_PHRASES = [
+  "only necessary", "necessary only", "only essential", "essential only", "strictly necessary only",
+  "necessary cookies only", "essential cookies only", "use necessary cookies only", "accept only necessary",
+  "accept necessary", "accept essential", "allow necessary", "allow essential", "only required",
+  "continue without accepting", "continue without agreeing", "continuer sans accepter",
+  "nur notwendige", "nur erforderliche", "nur essenzielle", "solo necesarias", "solo esenciales",
+  "solo necessari", "alleen noodzakelijk", "apenas necessarios"
+]
+
+const REJECT_PHRASES = [
+  "reject", "decline", "refuse", "deny", "disagree", "no thanks", "no, thanks", "do not accept", "i do not accept",
+  "refuser", "je refuse", "ablehnen", "rechazar", "rifiuta", "weigeren", "rejeitar", "recusar"
+]
+
+// A button mentioning any of these says yes to everything; never press it
+const ACCEPT_ALL_PHRASES = ["accept all", "allow all", "agree to all", "accept cookies", "tout accepter", "alle akzeptieren", "aceptar todo"]
+
+// Words that make an otherwise ordinary dialog a consent dialog. Privacy or tracking talk alone isn't enough:
+// order tracking, sign-in and payment dialogs mention those too.
+const CONSENT_WORDS = ["cookie", "cookies", "consent", "consentement", "einwilligung", "consentimiento", "consenso", "toestemming"]
+
+const GENERIC_CONTAINER_SELECTOR = [
+  "[role='dialog']", "[role='alertdialog']", "[aria-modal='true']", "dialog[open]",
+  "[id*='cookie' i]", "[class*='cookie' i]", "[id*='consent' i]", "[class*='consent' i]",
+  "[id*='gdpr' i]", "[class*='gdpr' i]", "[id*='cmp' i]"
+].join(", ")
+
+// Known frameworks sometimes use links for "Continue without accepting"; in an unknown dialog a link
+// is as likely to lead somewhere else, so only real buttons are pressed there
+const PLATFORM_BUTTON_SELECTOR = "button, [role='button'], a, input[type='button'], input[type='submit']"
+const GENERIC_BUTTON_SELECTOR = "button, [role='button'], input[type='button'], input[type='submit']"
+
+function buttonText(button: HTMLElement): string {
+  const value = button.tagName === "INPUT" ? (button as HTMLInputElement).value : button.innerText
+  return normalizeText(value || button.getAttribute("aria-label") || "")
+}
+
+// ============================================
+// FINDING THE BANNER AND ITS "NO" BUTTON
+// ============================================
+
+interface FoundBanner {
+  container: HTMLElement
+  platform?: ConsentPlatform
+}
+
+function isOverlayLike(element: HTMLElement): boolean {
+  const view = element.ownerDocument.defaultView ?? window
+  for (let current: HTMLElement | null = element; current; current = current.parentElement) {
+    const position = view.getComputedStyle(current).position
+    if (position === "fixed" || position === "sticky") return true
+  }
+  return element.getAttribute("aria-modal") === "true" || element.tagName === "DIALOG"
+}
+
+/**
+ * The visible consent banner. With knownPlatformsOnly, only the containers of recognised frameworks count;
+ * otherwise any overlay dialog that talks about cookies or consent does.
+ */
+function findBanner(knownPlatformsOnly: boolean): FoundBanner | null {
+  for (const platform of CONSENT_PLATFORMS) {
+    const container = deepQuerySelector(platform.container) as HTMLElement | null
+    if (container && isElementVisible(container)) return { container, platform }
+  }
+  if (knownPlatformsOnly) return null
+
+  const candidates = deepQuerySelectorAll(GENERIC_CONTAINER_SELECTOR)
+    .map((element) => element as HTMLElement)
+    .filter((element) => isElementVisible(element) && isOverlayLike(element))
+    .filter((element) => {
+      // A real banner explains itself and offers buttons; a lone "Cookie policy" link doesn't
+      const text = normalizeText(element.innerText || "")
+      return text.length >= 40 && text.length < 5000 &&
+        CONSENT_WORDS.some((word) => containsPhrase(text, word)) &&
+        element.querySelector(GENERIC_BUTTON_SELECTOR) !== null
+    })
+
+  // The outermost match is the banner; inner matches are its parts
+  const outermost = candidates.find((element) => !candidates.some((other) => other !== element && other.contains(element)))
+  return outermost ? { container: outermost } : null
+}
+
+function findRejectButton(banner: FoundBanner): HTMLElement | null {
+  const root = banner.container.shadowRoot ?? banner.container
+  for (const selector of banner.platform?.reject ?? []) {
+    const button = (root.querySelector(selector) ?? deepQuerySelector(selector)) as HTMLElement | null
+    if (button && isElementVisible(button)) return button
+  }
+
+  const selector = banner.platform ? PLATFORM_BUTTON_SELECTOR : GENERIC_BUTTON_SELECTOR
+  const buttons = Array.from(root.querySelectorAll<HTMLElement>(selector))
+    .filter((button) => isElementVisible(button))
+    .map((button) => ({ button, text: buttonText(button) }))
+    .filter(({ text }) => text.length > 0 && text.length < 60 && !ACCEPT_ALL_PHRASES.some((p) => containsPhrase(text, p)))
+
+  for (const phrases of [REJECT_ALL_PHRASES, NECESSARY_ONLY_PHRASES, REJECT_PHRASES]) {
+    const match = buttons.find(({ text }) => phrases.some((phrase) => containsPhrase(text, phrase)))
+    if (match) return match.button
+  }
+  return null
+}
+
+function waitUntilGone(element: HTMLElement, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const started = Date.now()
+    const check = () => {
+      if (!element.isConnected || !isElementVisible(element)) {
+        resolve(true)
+      } else if (Date.now() - started > timeoutMs) {
+        resolve(false)
+      } else {
+        setTimeout(check, 100)
+      }
+    }
+    check()
+  })
+}
+
+// ============================================
+// SCROLL LOCKS AND BACKDROPS
+// ============================================
+
+/**
+ * Undoes the tricks banners use to stop the page scrolling (overflow: hidden, a fixed body)
+ * and hides empty full-screen backdrops left behind. Returns true if anything changed.
+ */
+function removeScrollLocks(): boolean {
+  let changed = false
+  const pageIsLong = document.documentElement.scrollHeight > window.innerHeight + 10
+
+  for (const element of [document.documentElement, document.body]) {
+    if (!element) continue
+    const style = window.getComputedStyle(element)
+
+    if (pageIsLong && (style.overflow === "hidden" || style.overflowY === "hidden")) {
+      setStyle(element, "overflow", "visible")
+      setStyle(element, "overflow-y", "visible")
+      changed = true
+    }
+
+    // Some banners pin the body at a negative top to freeze it; put it back where the reader was
+    if (style.position === "fixed" && element === document.body) {
+      const frozenAt = -parseFloat(style.top || "0") || 0
+      setStyle(element, "position", "static")
+      setStyle(element, "top", "auto")
+      window.scrollTo(0, frozenAt)
+      changed = true
+    }
+  }
+
+  // Backdrops sit near the top of the tree; looking deeper would mean styling every element on the page
+  const viewportArea = window.innerWidth * window.innerHeight
+  const topLevel = Array.from(document.body?.children ?? []).flatMap((child) => [child, ...Array.from(child.children)])
+  topLevel.forEach((el) => {
+    const element = el as HTMLElement
+    if (element.id.startsWith("silver-surfer")) return
+    const style = window.getComputedStyle(element)
+    if (style.position !== "fixed" || style.display === "none" || style.visibility === "hidden") return
+    const rect = element.getBoundingClientRect()
+    const coversScreen = rect.width * rect.height >= viewportArea * 0.9
+    if (coversScreen && (element.innerText || "").trim().length < 5 && !element.querySelector("img, video, iframe, canvas")) {
+      setStyle(element, "display", "none")
+      changed = true
+    }
+  })
+
+  return changed
+}
+
+// ============================================
+// ENTRY POINTS
+// ============================================
+
+/**
+ * Turns down the cookie banner on the page, if there is one: presses the most private choice
+ * ("Reject all", then "Necessary only", then plain "Reject"), or hides the banner when it offers no way to say no.
+ * Scroll locks are lifted either way. Hiding and unlocking can be undone; the click can't.
+ * automatic (nobody asked, the page just loaded) limits this to recognised consent frameworks.
+ */
+export async function handleConsentBanners(options: { automatic?: boolean } = {}): Promise<ConsentResult> {
+  const banner = findBanner(Boolean(options.automatic))
+  if (!banner) {
+    return { success: true, message: "No cookie banner found", handled: false }
+  }
+
+  const platform = banner.platform?.name
+  const button = findRejectButton(banner)
+  let choice: string | undefined
+  let gone = false
+
+  if (button) {
+    choice = (button.tagName === "INPUT" ? (button as HTMLInputElement).value : button.innerText || button.getAttribute("aria-label") || "")
+      .trim()
+      .replace(/\s+/g, " ")
+    button.click()
+    gone = await waitUntilGone(banner.container, 2000)
+  }
+
+  let hidden = false
+  const scrollUnlocked = recordChanges("consent", "Cleared a cookie banner", () => {
+    if (!gone && banner.container.isConnected && isElementVisible(banner.container)) {
+      setStyle(banner.container, "display", "none")
+      hidden = true
+    }
+    return removeScrollLocks()
+  })
+
+  const by = platform ? ` on the ${platform} cookie banner` : " on the cookie banner"
+  const message = choice && gone
+    ? `Pressed "${choice}"${by}`
+    : choice
+      ? `Pressed "${choice}"${by}, but it stayed open, so I hid it`
+      : `The cookie banner had no way to say no, so I hid it without agreeing to anything`
+
+  return { success: true, message, handled: true, platform, choice, hidden, scrollUnlocked }
+}
+
+// Banners often appear a few seconds after load; keep an eye out this long
+const WATCH_DURATION_MS = 15000
+const WATCH_THROTTLE_MS = 500
+
+/**
+ * Watches a freshly loaded page for the banner of a recognised consent framework and handles the first one
+ * that shows up. Other dialogs are left alone until the user asks. Returns a function that stops watching.
+ */
+export function watchForConsentBanners(onHandled: (result: ConsentResult) => void): () => void {
+  let stopped = false
+  let busy = false
+  let scheduled: ReturnType<typeof setTimeout> | null = null
+
+  const stop = () => {
+    stopped = true
+    observer.disconnect()
+    clearTimeout(deadline)
+    if (scheduled) clearTimeout(scheduled)
+  }
+
+  const check = async () => {
+    scheduled = null
+    if (stopped || busy || !findBanner(true)) return
+    busy = true
+    const result = await handleConsentBanners({ automatic: true })
+    busy = false
+    if (result.handled && !stopped) {
+      stop()
+      onHandled(result)
+    }
+  }
+
+  const schedule = () => {
+    if (!scheduled && !stopped) scheduled = setTimeout(check, WATCH_THROTTLE_MS)
+  }
+
+  const observer = new MutationObserver(schedule)
+  observer.observe(document.documentElement, { childList: true, subtree: true })
+  const deadline = setTimeout(stop, WATCH_DURATION_MS)
+  schedule()
+
+  return stop
+}
@@ -2,7 +2,8 @@
 // API client for the Conversations endpoint using existing api module
 
 import { api } from "./api"
-import type { ConversationRequest, ConversationResponse, PageState, ConversationSummary, ConversationDetail } from "~types/conversation"
+import type { ActionResult, ConversationRequest, ConversationResponse, PageState, ConversationSummary, ConversationDetail, ScreenshotTarget } from "~types/conversation"
+import type { ScreenshotOptions } from "~lib/screenshot-processing"
 
 const CONVERSATIONS_ENDPOINT = "/api/chat"
 
@@ -10,13 +11,17 @@ const CONVERSATIONS_ENDPOINT = "/api/chat"
  * Send a message to the conversations API
  * If sessionId is provided, continues existing conversation
  * If omitted, creates a new conversation session
+ * actionResults reports how the previously returned actions went so the agent can adapt
+ * Aborting signal cancels the in-flight request
  */
 export async function sendConversationMessage(
   message: string,
   sessionId?: string | null,
   pageState?: PageState,
   pageTitle?: string,
-  conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>
+  conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>,
+  actionResults?: ActionResult[],
+  signal?: AbortSignal
 ): Promise<{ success: boolean; data?: ConversationResponse; error?: string }> {
   const requestBody: ConversationRequest = {
     title: pageTitle || "Untitled Page",
@@ -34,7 +39,15 @@ export async function sendConversationMessage(
     requestBody.conversation_history = conversationHistory
   }
 
-  const response = await api.post<ConversationResponse>(CONVERSATIONS_ENDPOINT, requestBody)
+  if (actionResults && actionResults.length > 0) {
+    requestBody.action_results = actionResults
+  }
+
+  const response = await api.post<ConversationResponse>(CONVERSATIONS_ENDPOINT, requestBody, undefined, signal)
+
+  if (response.cancelled) {
+    return { success: false, error: "Request cancelled" }
+  }
 
   if (!response.success) {
     // Handle error - could be string or object
@@ -64,15 +77,30 @@ export async function sendConversationMessage(
 }
 
 /**
- * Get the current page state from the active tab including distilled DOM and screenshot
+ * Get the current page state from the active tab (or the tab a task is bound to) including distilled DOM
+ * (or the delta since the session's last capture) and screenshot
  */
-export async function getCurrentPageState(): Promise<{
+export async function getCurrentPageState(options: {
+  tabId?: number // Defaults to the active tab
+  sessionId?: string
+  delta?: boolean
+  screenshot?: Partial<ScreenshotOptions> // Size and encoding of the screenshot; defaults suit the agent
+  capture?: ScreenshotTarget // Whole page or one element instead of the visible area
+} = {}): Promise<{
   pageState: PageState
   title: string
 } | null> {
   return new Promise((resolve) => {
     // Use CAPTURE_ALL to get both screenshot and distilled DOM
-    chrome.runtime.sendMessage({ action: "CAPTURE_ALL" }, (response) => {
+    // With a session, the page keeps this capture as a baseline; delta asks for only the changes since the last one
+    chrome.runtime.sendMessage({
+      action: "CAPTURE_ALL",
+      tabId: options.tabId,
+      sessionId: options.sessionId,
+      delta: options.delta,
+      screenshot: options.screenshot,
+      capture: options.capture
+    }, (response) => {
       if (chrome.runtime.lastError) {
         console.error("Failed to capture page state:", chrome.runtime.lastError)
         resolve(null)
@@ -85,18 +113,23 @@ export async function getCurrentPageState(): Promise<{
         return
       }
 
-      const { screenshot, distilledDOM, url } = response.data
+      const { screenshot, screenshotMode, distilledDOM, accessibilityTree, pageDelta, url } = response.data
 
-      // Get the page title from the active tab
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-        const tab = tabs[0]
+      // Get the page title from the same tab
+      const tabLookup = options.tabId !== undefined
+        ? chrome.tabs.get(options.tabId).catch(() => undefined)
+        : chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => tab)
+      tabLookup.then((tab) => {
         const title = tab?.title || "Untitled"
 
         resolve({
           pageState: {
             url: url || tab?.url || "",
             distilledDOM: distilledDOM || null,
-            screenshot: screenshot || ""
+            accessibilityTree: accessibilityTree || null,
+            page_delta: pageDelta || null,
+            screenshot: screenshot || "",
+            screenshot_mode: screenshotMode || undefined
           },
           title
         })
@@ -0,0 +1,386 @@
+// src/lib/dom-distiller.ts
+// DOM distiller shared by the content script and the executeScript fallback.
+// Both paths run this exact module (see page-runtime.ts), so their output is identical.
+
+import { collectRoots, generateSelector, type SearchRoot } from "~lib/dom-roots"
+import type { DOMElement, DistilledDOM, ElementBounds, ScopeStep } from "~types/conversation"
+
+// Attribute stamped on every captured element so actions can find it again without a selector
+export const ELEMENT_REF_ATTRIBUTE = "data-ss-ref"
+
+declare global {
+  interface Window {
+    __silverSurferNextRef?: number
+  }
+}
+
+/**
+ * Returns the element's reference id, stamping a new one if it doesn't have one yet.
+ * Ids live as long as the page, so the same element keeps its ref across observations.
+ */
+export function getElementRef(element: Element): string {
+  const existing = element.getAttribute(ELEMENT_REF_ATTRIBUTE)
+  if (existing) return existing
+
+  const next = window.__silverSurferNextRef ?? 1
+  window.__silverSurferNextRef = next + 1
+  const ref = `ss-${next}`
+  element.setAttribute(ELEMENT_REF_ATTRIBUTE, ref)
+  return ref
+}
+
+// ============================================
+// DOM DISTILLER - LLM-friendly page structure
+// ============================================
+
+/**
+ * Limits for a budgeted distillation. When the page has more than this, the most useful
+ * elements are kept (in viewport, interactive, near a heading) and the rest are reported as omitted.
+ */
+export interface DistillBudget {
+  maxElements: number
+  maxTextChars: number
+}
+
+// What the agent observations send; enough for a long news or shopping page without slowing chat down
+export const DEFAULT_DISTILL_BUDGET: DistillBudget = {
+  maxElements: 250,
+  maxTextChars: 8000
+}
+
+// Elements this many positions after a heading count as "near" it
+const HEADING_PROXIMITY = 3
+
+/**
+ * Checks if an element is visible in the viewport
+ */
+export function isElementVisible(element: Element): boolean {
+  // Elements inside a frame must be measured with that frame's window
+  const view = element.ownerDocument.defaultView ?? window
+  const style = view.getComputedStyle(element)
+  if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") {
+    return false
+  }
+  
+  const rect = element.getBoundingClientRect()
+  return rect.width > 0 && rect.height > 0
+}
+
+/**
+ * Bounding box relative to the top-level viewport, adding the offsets of any frames in between
+ */
+function getViewportBounds(element: Element): ElementBounds {
+  return toViewportBounds(element.getBoundingClientRect(), element.ownerDocument)
+}
+
+/**
+ * Moves a rectangle measured inside a (possibly nested) frame document into top-level viewport coordinates
+ */
+export function toViewportBounds(rect: DOMRect, ownerDocument: Document): ElementBounds {
+  let x = rect.left
+  let y = rect.top
+  let view: Window | null = ownerDocument.defaultView
+  while (view && view.frameElement) {
+    const frameRect = view.frameElement.getBoundingClientRect()
+    x += frameRect.left
+    y += frameRect.top
+    view = view.parent
+  }
+  return { x: Math.round(x), y: Math.round(y), width: Math.round(rect.width), height: Math.round(rect.height) }
+}
+
+function isInViewport(bounds: ElementBounds): boolean {
+  return bounds.x < window.innerWidth && bounds.y < window.innerHeight &&
+         bounds.x + bounds.width > 0 && bounds.y + bounds.height > 0
+}
+
+/**
+ * Truncates text to a reasonable length for LLM context
+ */
+function truncateText(text: string | null | undefined, maxLength: number = 100): string | undefined {
+  if (!text) return undefined
+  const cleaned = text.trim().replace(/\s+/g, " ")
+  if (cleaned.length <= maxLength) return cleaned
+  return cleaned.substring(0, maxLength) + "..."
+}
+
+/**
+ * Extracts element information for LLM consumption
+ */
+function extractElementInfo(element: Element, index: number, scope: ScopeStep[]): DOMElement {
+  const el = element as HTMLElement
+  const inputEl = element as HTMLInputElement
+  const selectEl = element as HTMLSelectElement
+
+  const bounds = getViewportBounds(element)
+
+  const info: DOMElement = {
+    index,
+    ref: getElementRef(element),
+    selector: generateSelector(element),
+    ...(scope.length > 0 && { scope }),
+    tag: element.tagName.toLowerCase(),
+    isVisible: isElementVisible(element),
+    inViewport: isInViewport(bounds),
+    bounds,
+    isInteractive: ["A", "BUTTON", "INPUT", "SELECT", "TEXTAREA"].includes(element.tagName) ||
+                   el.getAttribute("role") === "button" ||
+                   el.onclick !== null ||
+                   el.hasAttribute("tabindex")
+  }
+
+  // Text content
+  const directText = Array.from(element.childNodes)
+    .filter(n => n.nodeType === Node.TEXT_NODE)
+    .map(n => n.textContent?.trim())
+    .filter(Boolean)
+    .join(" ")
+  
+  info.text = truncateText(directText || element.textContent)
+
+  // Type for inputs/buttons
+  if (inputEl.type) info.type = inputEl.type
+  
+  // Role
+  const role = el.getAttribute("role")
+  if (role) info.role = role
+
+  // Placeholder
+  if (inputEl.placeholder) info.placeholder = inputEl.placeholder
+
+  // Current value (not for passwords)
+  if (inputEl.value && inputEl.type !== "password") {
+    info.value = truncateText(inputEl.value, 50)
+  }
+
+  // Href for links
+  const href = el.getAttribute("href")
+  if (href && !href.startsWith("javascript:")) {
+    info.href = href.startsWith("/") ? href : truncateText(href, 80)
+  }
+
+  // Src and alt for images
+  const img = element as HTMLImageElement
+  if (img.src) info.src = truncateText(img.src, 80)
+  if (img.alt) info.alt = truncateText(img.alt, 80)
+
+  // Aria label
+  const ariaLabel = el.getAttribute("aria-label")
+  if (ariaLabel) info.ariaLabel = truncateText(ariaLabel)
+
+  // Options for select
+  if (element.tagName === "SELECT") {
+    info.options = Array.from(selectEl.options).map(o => o.textContent?.trim() || o.value).slice(0, 10)
+    if (selectEl.options.length > 10) {
+      info.options.push(`... and ${selectEl.options.length - 10} more`)
+    }
+  }
+
+  return info
+}
+
+const HEADING_TAGS = ["h1", "h2", "h3", "h4", "h5", "h6"]
+
+/**
+ * Keeps the highest-ranked elements up to the limit, returned in their original flow order.
+ * Ranking: in the viewport first, then interactive, then headings and what follows them.
+ */
+function selectWithinBudget(candidates: DOMElement[], maxElements: number): DOMElement[] {
+  if (candidates.length <= maxElements) return candidates
+
+  let lastHeading = -Infinity
+  const scored = candidates.map((info, position) => {
+    const isHeading = HEADING_TAGS.includes(info.tag)
+    if (isHeading) lastHeading = position
+    const nearHeading = isHeading || position - lastHeading <= HEADING_PROXIMITY
+
+    const score = (info.inViewport ? 4 : 0) + (info.isInteractive ? 2 : 0) + (nearHeading ? 1 : 0)
+    return { info, position, score }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, maxElements)
+    .sort((a, b) => a.position - b.position)
+    .map(({ info }) => info)
+}
+
+/**
+ * Cuts text to at most maxLength characters, ending on a word boundary
+ */
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+  const cut = text.substring(0, maxLength)
+  const lastSpace = cut.lastIndexOf(" ")
+  return (lastSpace > maxLength * 0.8 ? cut.substring(0, lastSpace) : cut) + "..."
+}
+
+/**
+ * Distills the DOM into a structured, LLM-friendly JSON format
+ * Elements are returned in document flow order as a flat list, followed by the contents of
+ * same-origin iframes and open shadow roots (tagged with the scope needed to reach them).
+ * With a budget, only the highest-ranked elements and the start of the text are kept; candidateRefs still
+ * lists every element on the page, so callers can tell an element left out from one that is gone.
+ */
+export function distillDOM(budget?: DistillBudget): {
+  success: boolean
+  message: string
+  data?: DistilledDOM
+  candidateRefs?: string[]
+} {
+  try {
+    // Get meta description
+    const metaDesc = document.querySelector('meta[name="description"]') as HTMLMetaElement
+    
+    // Extract text content from a document's body or from a shadow root
+    const extractText = (root: SearchRoot): string => {
+      // nodeType rather than instanceof: frame documents come from another realm
+      const source = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root
+      if (!source) return ""
+      
+      // Clone the content to avoid modifying the actual DOM
+      const clone = document.createElement("div")
+      source.childNodes.forEach(node => clone.appendChild(node.cloneNode(true)))
+      
+      // Remove script, style, and other non-content elements
+      const removeSelectors = ["script", "style", "noscript", "svg", "iframe", "template"]
+      removeSelectors.forEach(sel => {
+        clone.querySelectorAll(sel).forEach(el => el.remove())
+      })
+      
+      // Get text content and clean it up
+      const text = clone.textContent || ""
+      return text
+        .replace(/\s+/g, " ")  // Collapse whitespace
+        .replace(/\n\s*\n/g, "\n")  // Remove empty lines
+        .trim()
+    }
+
+    // The page itself plus any same-origin frames and open shadow roots inside it
+    const roots = collectRoots()
+    
+    const distilled: DistilledDOM = {
+      url: window.location.href,
+      title: document.title,
+      metaDescription: metaDesc?.content || null,
+      fullText: roots.map(({ root }) => extractText(root)).filter(Boolean).join("\n"),
+      timestamp: new Date().toISOString(),
+      viewport: {
+        width: window.innerWidth,
+        height: window.innerHeight
+      },
+      summary: {
+        totalElements: 0,
+        interactiveElements: 0,
+        headings: 0,
+        links: 0,
+        buttons: 0,
+        inputs: 0,
+        images: 0
+      },
+      elements: []
+    }
+
+    // Selector for all relevant elements we want to capture
+    const relevantSelector = [
+      "h1", "h2", "h3", "h4", "h5", "h6",
+      "p",
+      "a[href]",
+      "button", "[role='button']", "input[type='submit']", "input[type='button']",
+      "input:not([type='hidden'])", "textarea", "select",
+      "img[alt]", "img[src]",
+      "nav", "[role='navigation']",
+      "main", "article", "[role='main']",
+      "form",
+      "header", "footer", "aside",
+      "[role='banner']", "[role='search']", "[role='contentinfo']",
+      "label",
+      "ul", "ol",
+      "table"
+    ].join(", ")
+
+    // Create a map to track which elements we've seen (to avoid duplicates)
+    const seenElements = new Set<Element>()
+    const candidates: DOMElement[] = []
+
+    for (const { root, scope } of roots) {
+      // Sort elements by document position (document flow order within each root)
+      const sortedElements = Array.from(root.querySelectorAll(relevantSelector)).sort((a, b) => {
+        const position = a.compareDocumentPosition(b)
+        if (position & Node.DOCUMENT_POSITION_FOLLOWING) return -1
+        if (position & Node.DOCUMENT_POSITION_PRECEDING) return 1
+        return 0
+      })
+
+      for (const element of sortedElements) {
+        // Skip duplicates
+        if (seenElements.has(element)) continue
+        seenElements.add(element)
+
+        // Skip hidden elements
+        if (!isElementVisible(element)) continue
+
+        // Extract element info
+        candidates.push(extractElementInfo(element, candidates.length, scope))
+      }
+    }
+
+    const kept = budget ? selectWithinBudget(candidates, budget.maxElements) : candidates
+
+    kept.forEach((info, index) => {
+      info.index = index
+      distilled.elements.push(info)
+
+      // Update summary counts
+      const tag = info.tag
+      if (HEADING_TAGS.includes(tag)) {
+        distilled.summary.headings++
+      } else if (tag === "a") {
+        distilled.summary.links++
+      } else if (tag === "button" || info.role === "button" || 
+                 (tag === "input" && ["submit", "button"].includes(info.type || ""))) {
+        distilled.summary.buttons++
+      } else if (["input", "textarea", "select"].includes(tag)) {
+        distilled.summary.inputs++
+      } else if (tag === "img") {
+        distilled.summary.images++
+      }
+
+      if (info.isInteractive) {
+        distilled.summary.interactiveElements++
+      }
+    })
+
+    distilled.summary.totalElements = distilled.elements.length
+
+    if (budget) {
+      const omittedTextChars = Math.max(0, distilled.fullText.length - budget.maxTextChars)
+      if (omittedTextChars > 0) {
+        distilled.fullText = truncateAtWord(distilled.fullText, budget.maxTextChars)
+      }
+
+      const omittedElements = candidates.length - kept.length
+      if (omittedElements > 0 || omittedTextChars > 0) {
+        const keptSet = new Set(kept)
+        distilled.summary.truncated = {
+          omittedElements,
+          omittedInteractiveElements: candidates.filter(c => c.isInteractive && !keptSet.has(c)).length,
+          omittedTextChars
+        }
+      }
+    }
+
+    return { 
+      success: true, 
+      message: `Distilled ${distilled.summary.totalElements} elements in document flow order` +
+        (distilled.summary.truncated?.omittedElements ? ` (${distilled.summary.truncated.omittedElements} omitted to fit the budget)` : ""),
+      data: distilled,
+      candidateRefs: candidates.map(candidate => candidate.ref)
+    }
+  } catch (error) {
+    return { 
+      success: false, 
+      message: error instanceof Error ? error.message : "Failed to distill DOM" 
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// src/lib/dom-roots.ts
+// Helpers for reaching into open shadow roots and same-origin frames
+
+import type { ScopeStep } from "~types/conversation"
+
+export type SearchRoot = Document | ShadowRoot
+
+export interface ScopedRoot {
+  root: SearchRoot
+  scope: ScopeStep[] // Empty for the top document
+}
+
+/**
+ * Returns the document a frame element shows, or null when it's cross-origin or not loaded
+ */
+export function getFrameDocument(frame: Element): Document | null {
+  try {
+    return (frame as HTMLIFrameElement).contentDocument
+  } catch {
+    // Cross-origin frames throw on access in some browsers
+    return null
+  }
+}
+
+/**
+ * Generates a CSS selector for an element that is unique within its own document or shadow root
+ */
+export function generateSelector(element: Element): string {
+  const root = element.getRootNode() as SearchRoot
+  // Try ID first (most reliable)
+  if (element.id) {
+    return `#${CSS.escape(element.id)}`
+  }
+
+  // Try unique class combination
+  if (element.classList.length > 0) {
+    const classes = Array.from(element.classList).slice(0, 3).map(c => `.${CSS.escape(c)}`).join("")
+    const matches = root.querySelectorAll(classes)
+    if (matches.length === 1) {
+      return classes
+    }
+  }
+
+  // Try data attributes (skipping the ones we add ourselves)
+  for (const attr of element.attributes) {
+    if (attr.name.startsWith("data-ss-") || attr.name.startsWith("data-silver-surfer")) continue
+    if (attr.name.startsWith("data-") && attr.value) {
+      const selector = `[${attr.name}="${CSS.escape(attr.value)}"]`
+      const matches = root.querySelectorAll(selector)
+      if (matches.length === 1) {
+        return selector
+      }
+    }
+  }
+
+  // Build path-based selector
+  const path: string[] = []
+  let current: Element | null = element
+
+  while (current && current !== current.ownerDocument.body) {
+    let selector = current.tagName.toLowerCase()
+    
+    if (current.id) {
+      selector = `#${CSS.escape(current.id)}`
+      path.unshift(selector)
+      break
+    }
+
+    // Add nth-child if needed
+    const parent = current.parentElement
+    if (parent) {
+      const siblings = Array.from(parent.children).filter(c => c.tagName === current!.tagName)
+      if (siblings.length > 1) {
+        const index = siblings.indexOf(current) + 1
+        selector += `:nth-of-type(${index})`
+      }
+    }
+
+    path.unshift(selector)
+    current = parent
+  }
+
+  return path.join(" > ")
+}
+
+/**
+ * Lists the top document plus every open shadow root and same-origin frame document below it,
+ * each with the path of hosts needed to reach it again
+ */
+export function collectRoots(root: SearchRoot = document, scope: ScopeStep[] = []): ScopedRoot[] {
+  const roots: ScopedRoot[] = [{ root, scope }]
+
+  root.querySelectorAll("*").forEach((element) => {
+    if (element.shadowRoot) {
+      const step: ScopeStep = { type: "shadow", host: generateSelector(element) }
+      roots.push(...collectRoots(element.shadowRoot, [...scope, step]))
+    }
+
+    if (element.tagName === "IFRAME" || element.tagName === "FRAME") {
+      const frameDoc = getFrameDocument(element)
+      if (frameDoc?.documentElement) {
+        const step: ScopeStep = { type: "frame", host: generateSelector(element) }
+        roots.push(...collectRoots(frameDoc, [...scope, step]))
+      }
+    }
+  })
+
+  return roots
+}
+
+/**
+ * Follows a scope path from the top document to the shadow root or frame document it names
+ */
+export function resolveScope(scope: ScopeStep[] | undefined): SearchRoot | null {
+  let root: SearchRoot = document
+  for (const step of scope ?? []) {
+    let host: Element | null = null
+    try {
+      host = root.querySelector(step.host)
+    } catch {
+      // Invalid selector
+    }
+    if (!host) return null
+    const next = step.type === "shadow" ? host.shadowRoot : getFrameDocument(host)
+    if (!next) return null
+    root = next
+  }
+  return root
+}
+
+/**
+ * The open shadow roots and same-origin frame documents below a root, in document order. Found as the walk
+ * goes, so a search can stop at the first hit, and without the scope paths collectRoots builds.
+ */
+function* nestedRoots(root: SearchRoot): Generator<SearchRoot> {
+  const doc = root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : root.ownerDocument
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_ELEMENT)
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const element = node as Element
+    if (element.shadowRoot) {
+      yield element.shadowRoot
+      yield* nestedRoots(element.shadowRoot)
+    }
+    if (element.tagName === "IFRAME" || element.tagName === "FRAME") {
+      const frameDoc = getFrameDocument(element)
+      if (frameDoc?.documentElement) {
+        yield frameDoc
+        yield* nestedRoots(frameDoc)
+      }
+    }
+  }
+}
+
+/**
+ * querySelector that also looks inside shadow roots and same-origin frames.
+ * With a scope it only searches that root; otherwise the top document wins, and nested roots are
+ * only walked when it has no match.
+ */
+export function deepQuerySelector(selector: string, scope?: ScopeStep[]): Element | null {
+  if (scope && scope.length > 0) {
+    return resolveScope(scope)?.querySelector(selector) ?? null
+  }
+  const found = document.querySelector(selector)
+  if (found) return found
+  for (const root of nestedRoots(document)) {
+    const nested = root.querySelector(selector)
+    if (nested) return nested
+  }
+  return null
+}
+
+/**
+ * querySelectorAll across the top document, open shadow roots and same-origin frames
+ */
+export function deepQuerySelectorAll(selector: string): Element[] {
+  const found = Array.from(document.querySelectorAll(selector))
+  for (const root of nestedRoots(document)) {
+    found.push(...Array.from(root.querySelectorAll(selector)))
+  }
+  return found
+}
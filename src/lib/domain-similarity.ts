@@ -0,0 +1,222 @@
+// src/lib/domain-similarity.ts
+// Spots web addresses made to look like a trusted one: swapped look-alike letters, small typos,
+// the real name tucked inside a different site's address, or the right name on the wrong ending
+
+export type LookalikeReason = "homoglyph" | "typo" | "embedded" | "other-ending"
+
+export interface LookalikeMatch {
+  trusted: string // The trusted domain being imitated
+  reason: LookalikeReason
+}
+
+// Second-level endings where the registrable domain takes three labels (example.co.uk)
+const MULTI_PART_SUFFIXES = new Set([
+  "co.uk", "org.uk", "ac.uk", "gov.uk", "me.uk", "ltd.uk", "plc.uk",
+  "com.au", "net.au", "org.au", "co.nz", "org.nz", "co.za", "co.in", "co.jp", "ne.jp",
+  "com.br", "com.mx", "com.ar", "com.sg", "com.hk", "com.tr", "com.cn", "co.kr", "co.il"
+])
+
+// Characters that render (nearly) the same as a Latin letter or digit
+const HOMOGLYPHS: Record<string, string> = {
+  "0": "o", "1": "l", "3": "e", "5": "s", "|": "l",
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x", "і": "i", "ј": "j", "ѕ": "s",
+  "ԁ": "d", "ɡ": "g", "һ": "h", "ӏ": "l", "ո": "n", "ս": "u", "ν": "v", "ο": "o", "α": "a", "ρ": "p",
+  "ı": "i", "ł": "l", "ɩ": "i"
+}
+
+// Generic endings anyone can register a name on; a trusted name on another ending (amazon.jobs, google.dev)
+// is usually the brand's own site
+const SQUATTED_ENDINGS = new Set([
+  "com", "net", "org", "info", "biz", "xyz", "top", "online", "site", "website", "club", "shop", "store",
+  "live", "support", "help", "services", "link", "click", "icu", "buzz", "vip", "cc"
+])
+
+// Words phishing addresses put next to the real name ("paypal-verify.com", "secure-chase-login.net")
+const LURE_WORDS = new Set([
+  "login", "signin", "logon", "verify", "verification", "secure", "security", "account", "accounts",
+  "update", "confirm", "billing", "support", "auth", "unlock", "recovery", "wallet"
+])
+
+// Letter pairs that read as a single letter at a glance
+const DIGRAPHS: [RegExp, string][] = [[/rn/g, "m"], [/vv/g, "w"], [/cl/g, "d"]]
+
+// ============================================
+// PUNYCODE - Internationalised addresses arrive as xn--...; decode them to see the real letters
+// ============================================
+
+const PUNY_BASE = 36
+const PUNY_TMIN = 1
+const PUNY_TMAX = 26
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / 700) : delta >> 1
+  delta += Math.floor(delta / numPoints)
+  let k = 0
+  while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN))
+    k += PUNY_BASE
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38))
+}
+
+/**
+ * Decodes one xn-- label (RFC 3492); returns the label unchanged if it isn't valid punycode
+ */
+function decodePunycodeLabel(label: string): string {
+  if (!label.startsWith("xn--")) return label
+  const input = label.slice(4)
+  const basicEnd = input.lastIndexOf("-")
+  const output = basicEnd > 0 ? Array.from(input.slice(0, basicEnd)) : []
+  let n = 128
+  let bias = 72
+  let i = 0
+
+  for (let pos = basicEnd > 0 ? basicEnd + 1 : 0; pos < input.length; ) {
+    const oldI = i
+    let w = 1
+    for (let k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (pos >= input.length) return label
+      const code = input.charCodeAt(pos++)
+      const digit = code - 48 < 10 ? code - 22 : code - 65 < 26 ? code - 65 : code - 97 < 26 ? code - 97 : PUNY_BASE
+      if (digit >= PUNY_BASE) return label
+      i += digit * w
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias
+      if (digit < t) break
+      w *= PUNY_BASE - t
+    }
+    bias = adaptBias(i - oldI, output.length + 1, oldI === 0)
+    n += Math.floor(i / (output.length + 1))
+    i %= output.length + 1
+    output.splice(i++, 0, String.fromCodePoint(n))
+  }
+  return output.join("")
+}
+
+/**
+ * The host as people see it: lowercased, without "www.", with internationalised labels decoded
+ */
+export function displayHost(host: string): string {
+  return host
+    .toLowerCase()
+    .replace(/\.$/, "")
+    .split(".")
+    .map(decodePunycodeLabel)
+    .join(".")
+    .replace(/^www\./, "")
+}
+
+/**
+ * True if the host uses internationalised (punycode) labels or letters outside plain ASCII,
+ * the raw material of look-alike addresses
+ */
+export function hasLookalikeCharacters(host: string): boolean {
+  return host.toLowerCase().split(".").some((label) => label.startsWith("xn--")) || /[^\x00-\x7f]/.test(host)
+}
+
+/**
+ * Whether a match is worth stopping the user for. Disguised letters and the right name on a generic wrong
+ * ending are deliberate; a near spelling or the name inside a longer address is often just another real
+ * site (discovery.com for discover.com), and only counts when the page asks for a password.
+ */
+export function isPlausibleLookalike(host: string, match: LookalikeMatch, asksForPassword: boolean): boolean {
+  return match.reason === "homoglyph" || match.reason === "other-ending" || hasLookalikeCharacters(host) || asksForPassword
+}
+
+/**
+ * The part of a host someone actually registers: bank.co.uk for login.bank.co.uk
+ */
+export function getRegistrableDomain(host: string): string {
+  const labels = displayHost(host).split(".")
+  if (labels.length <= 2) return labels.join(".")
+  const lastTwo = labels.slice(-2).join(".")
+  return labels.slice(MULTI_PART_SUFFIXES.has(lastTwo) ? -3 : -2).join(".")
+}
+
+function splitName(domain: string): { name: string; ending: string } {
+  const labels = domain.split(".")
+  const lastTwo = labels.slice(-2).join(".")
+  const endingLength = labels.length > 2 && MULTI_PART_SUFFIXES.has(lastTwo) ? 2 : 1
+  return {
+    name: labels.slice(0, -endingLength).join("."),
+    ending: labels.slice(-endingLength).join(".")
+  }
+}
+
+/**
+ * Collapses look-alike characters so "paypa1" and "pаypal" (Cyrillic а) both read "paypal"
+ */
+export function toSkeleton(text: string): string {
+  let result = Array.from(text.normalize("NFKD").replace(/\p{M}/gu, ""))
+    .map((char) => HOMOGLYPHS[char] ?? char)
+    .join("")
+  for (const [pattern, replacement] of DIGRAPHS) {
+    result = result.replace(pattern, replacement)
+  }
+  return result
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * True if the host is the trusted domain or one of its subdomains
+ */
+export function isSameSite(host: string, trusted: string): boolean {
+  const cleanHost = displayHost(host)
+  const cleanTrusted = displayHost(trusted)
+  return cleanHost === cleanTrusted || cleanHost.endsWith(`.${cleanTrusted}`)
+}
+
+/**
+ * Checks whether the host imitates one of the trusted domains. Hosts that belong to a trusted domain never match.
+ */
+export function findLookalike(host: string, trustedDomains: string[]): LookalikeMatch | null {
+  const cleanHost = displayHost(host)
+  if (!cleanHost || trustedDomains.some((trusted) => isSameSite(cleanHost, trusted))) return null
+
+  const registrable = getRegistrableDomain(cleanHost)
+  const { name, ending } = splitName(registrable)
+  const hostTokens = cleanHost.split(/[.-]/)
+
+  for (const trustedDomain of trustedDomains) {
+    const trusted = getRegistrableDomain(trustedDomain)
+    const { name: trustedName, ending: trustedEnding } = splitName(trusted)
+    if (!trustedName) continue
+
+    if (toSkeleton(registrable) === toSkeleton(trusted)) {
+      return { trusted, reason: "homoglyph" }
+    }
+
+    if (name === trustedName) {
+      // Country endings (amazon.de, google.co.uk) are usually the real company's local site
+      const isCountryEnding = ending.length === 2 || ending.includes(".")
+      if (ending !== trustedEnding && !isCountryEnding && SQUATTED_ENDINGS.has(ending)) return { trusted, reason: "other-ending" }
+      continue
+    }
+
+    // Short names are too easily one letter away from an unrelated real site
+    const allowedTypos = trustedName.length >= 9 ? 2 : trustedName.length >= 5 ? 1 : 0
+    if (allowedTypos > 0 && editDistance(toSkeleton(name), toSkeleton(trustedName)) <= allowedTypos) {
+      return { trusted, reason: "typo" }
+    }
+
+    // "chase.com.secure-login.net", "paypal-verify.com"; the bare name alone (google-analytics.com,
+    // chase-the-sun.com) is too common in real sites' addresses
+    const hasLureWord = hostTokens.some((token) => LURE_WORDS.has(token))
+    if (trustedName.length >= 4 && (cleanHost.includes(`${trusted}.`) || (hostTokens.includes(trustedName) && hasLureWord))) {
+      return { trusted, reason: "embedded" }
+    }
+  }
+  return null
+}
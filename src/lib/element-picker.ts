@@ -0,0 +1,166 @@
+// src/lib/element-picker.ts
+// Lets the user point at something on the page: hovering outlines it, clicking picks it.
+// The page's own click handlers never see the pick.
+
+const PICKER_BANNER_ID = "silver-surfer-picker-banner"
+const PICKER_BOX_ID = "silver-surfer-picker-box"
+
+export interface PickElementOptions {
+  prompt: string
+  // Maps what's under the pointer to what may be picked (e.g. the hidden box around it); null means "not this"
+  accept?: (element: HTMLElement) => HTMLElement | null
+}
+
+// Ends the picker that's currently running, if any
+let cancelActivePicker: (() => void) | null = null
+
+/**
+ * Stops a running picker as if the user pressed Esc
+ */
+export function cancelElementPicker(): boolean {
+  if (!cancelActivePicker) return false
+  cancelActivePicker()
+  return true
+}
+
+function createBanner(prompt: string, onCancel: () => void): HTMLElement {
+  const banner = document.createElement("div")
+  banner.id = PICKER_BANNER_ID
+  banner.setAttribute("role", "status")
+  banner.style.cssText = [
+    "position: fixed", "top: 12px", "left: 50%", "transform: translateX(-50%)", "z-index: 2147483647",
+    "display: flex", "align-items: center", "gap: 16px", "padding: 12px 20px",
+    "background: #fbbf24", "color: #000", "border: 4px solid #000", "border-radius: 12px",
+    "box-shadow: 6px 6px 0 0 #000", "font: 900 20px 'Comic Sans MS', 'Chalkboard SE', sans-serif"
+  ].join(";")
+
+  const text = document.createElement("span")
+  text.textContent = prompt
+  banner.appendChild(text)
+
+  const cancel = document.createElement("button")
+  cancel.textContent = "Cancel"
+  cancel.style.cssText = [
+    "padding: 6px 14px", "background: #fff", "color: #000", "border: 3px solid #000", "border-radius: 8px",
+    "font: inherit", "font-size: 16px", "cursor: pointer"
+  ].join(";")
+  cancel.addEventListener("click", onCancel)
+  banner.appendChild(cancel)
+
+  return banner
+}
+
+function createBox(): HTMLElement {
+  const box = document.createElement("div")
+  box.id = PICKER_BOX_ID
+  box.style.cssText = [
+    "position: fixed", "z-index: 2147483646", "pointer-events: none", "display: none",
+    "border: 4px solid #ef4444", "background: rgba(239, 68, 68, 0.15)", "border-radius: 4px",
+    "box-shadow: 0 0 0 2px #fff"
+  ].join(";")
+  return box
+}
+
+/**
+ * Waits for the user to click an element. Arrow Up widens the pick to the surrounding box,
+ * Arrow Down narrows it again. Resolves null if they press Esc or Cancel.
+ */
+export function pickElement(options: PickElementOptions): Promise<HTMLElement | null> {
+  cancelElementPicker()
+
+  return new Promise((resolve) => {
+    const accept = options.accept ?? ((element: HTMLElement) => element)
+    let hovered: HTMLElement | null = null
+    // Elements stepped through with the arrow keys, innermost first
+    let widened: HTMLElement[] = []
+
+    const isOwnUi = (node: EventTarget | null) =>
+      node instanceof Node && (banner.contains(node) || box.contains(node))
+
+    const current = () => widened[widened.length - 1] ?? hovered
+
+    const drawBox = () => {
+      const element = current()
+      if (!element) {
+        box.style.display = "none"
+        return
+      }
+      const rect = element.getBoundingClientRect()
+      box.style.display = "block"
+      box.style.left = `${rect.left - 4}px`
+      box.style.top = `${rect.top - 4}px`
+      box.style.width = `${rect.width + 8}px`
+      box.style.height = `${rect.height + 8}px`
+    }
+
+    const handleMove = (event: MouseEvent) => {
+      if (isOwnUi(event.target)) return
+      const target = event.target as HTMLElement
+      const candidate = target && target.nodeType === Node.ELEMENT_NODE ? accept(target) : null
+      if (candidate !== hovered) {
+        hovered = candidate
+        widened = []
+        drawBox()
+      }
+    }
+
+    // Keep the page from reacting to presses meant for the picker
+    const swallow = (event: Event) => {
+      if (isOwnUi(event.target)) return
+      event.preventDefault()
+      event.stopImmediatePropagation()
+    }
+
+    const handleClick = (event: MouseEvent) => {
+      if (isOwnUi(event.target)) return
+      swallow(event)
+      const picked = current()
+      if (picked) finish(picked)
+    }
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        swallow(event)
+        finish(null)
+      } else if (event.key === "ArrowUp" && current()) {
+        swallow(event)
+        const parent = current()!.parentElement
+        if (parent && parent !== document.body && parent !== document.documentElement) {
+          widened.push(parent)
+          drawBox()
+        }
+      } else if (event.key === "ArrowDown" && widened.length > 0) {
+        swallow(event)
+        widened.pop()
+        drawBox()
+      }
+    }
+
+    const swallowedEvents = ["mousedown", "mouseup", "pointerdown", "pointerup", "dblclick", "contextmenu"]
+
+    const finish = (picked: HTMLElement | null) => {
+      cancelActivePicker = null
+      document.removeEventListener("mousemove", handleMove, true)
+      document.removeEventListener("click", handleClick, true)
+      document.removeEventListener("keydown", handleKey, true)
+      window.removeEventListener("scroll", drawBox, true)
+      swallowedEvents.forEach((type) => document.removeEventListener(type, swallow, true))
+      banner.remove()
+      box.remove()
+      resolve(picked)
+    }
+
+    const banner = createBanner(options.prompt, () => finish(null))
+    const box = createBox()
+    document.documentElement.appendChild(box)
+    document.documentElement.appendChild(banner)
+
+    document.addEventListener("mousemove", handleMove, true)
+    document.addEventListener("click", handleClick, true)
+    document.addEventListener("keydown", handleKey, true)
+    window.addEventListener("scroll", drawBox, true)
+    swallowedEvents.forEach((type) => document.addEventListener(type, swallow, true))
+
+    cancelActivePicker = () => finish(null)
+  })
+}
@@ -0,0 +1,331 @@
+// src/lib/lookalike-guard.ts
+// Stops tabs whose address imitates one of the user's trusted sites: a deliberate copy is swapped for a warning
+// page until the user decides what to do, a merely similar address gets a warning beside the page, and a log of
+// those warnings is kept for whoever helps them with the computer
+
+import { displayHost, findLookalike, isPlausibleLookalike, type LookalikeReason } from "~lib/domain-similarity"
+
+export const LOOKALIKE_ALERTS_STORAGE_KEY = "lookalike_alerts" // Session: alerts waiting for a decision, by tab
+export const LOOKALIKE_ALLOWED_STORAGE_KEY = "lookalike_allowed" // Session: hosts the user chose to continue on
+export const LOOKALIKE_LOG_STORAGE_KEY = "lookalike_log" // Local: every warning and what the user did about it
+export const LOOKALIKE_LEAVING_STORAGE_KEY = "lookalike_leaving" // Session: tabs going back past a flagged page, by tab
+
+// Extension page shown in place of the flagged page (src/tabs/lookalike-warning.tsx)
+const INTERSTITIAL_PATH = "tabs/lookalike-warning.html"
+
+const MAX_LOG_ENTRIES = 100
+
+export type LookalikeOutcome = "pending" | "went-to-real-site" | "went-back" | "continued" | "left"
+
+export interface LookalikeAlert {
+  id: string
+  tabId: number
+  url: string
+  host: string // As the user would read it (internationalised letters decoded)
+  trusted: string // The trusted site it imitates
+  reason: LookalikeReason
+  blocking: boolean // The page is replaced by the warning page; otherwise the side panel and toolbar icon warn
+  detectedAt: string
+  outcome: LookalikeOutcome
+  resolvedAt?: string
+}
+
+type AlertsByTab = Record<string, LookalikeAlert>
+
+/**
+ * The lookalike behind a web address, if it imitates one of the trusted sites. Only checks web pages.
+ * Blocking until the page is seen asking for a password, unless the address itself is clearly a disguise.
+ */
+export function checkTrustedLookalike(url: string, trustedSites: string[]): Omit<LookalikeAlert, "id" | "tabId" | "detectedAt" | "outcome"> | null {
+  if (trustedSites.length === 0) return null
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null
+
+  const match = findLookalike(parsed.hostname, trustedSites)
+  if (!match) return null
+  return {
+    url,
+    host: displayHost(parsed.hostname),
+    trusted: match.trusted,
+    reason: match.reason,
+    blocking: isPlausibleLookalike(parsed.hostname, match, false)
+  }
+}
+
+/**
+ * One plain sentence on how the address differs from the real one
+ */
+export function describeLookalike(alert: Pick<LookalikeAlert, "host" | "trusted" | "reason">): string {
+  switch (alert.reason) {
+    case "homoglyph":
+      return `"${alert.host}" uses letters that look the same as "${alert.trusted}" but aren't.`
+    case "typo":
+      return `"${alert.host}" is spelled slightly differently from "${alert.trusted}".`
+    case "embedded":
+      return `"${alert.host}" has "${alert.trusted}" in it, but belongs to someone else.`
+    case "other-ending":
+      return `"${alert.host}" has the right name but the wrong ending; your site is "${alert.trusted}".`
+  }
+}
+
+// ============================================
+// PENDING ALERTS
+// ============================================
+
+async function loadAlerts(): Promise<AlertsByTab> {
+  try {
+    const res = await chrome.storage.session.get([LOOKALIKE_ALERTS_STORAGE_KEY])
+    return res[LOOKALIKE_ALERTS_STORAGE_KEY] ?? {}
+  } catch {
+    return {}
+  }
+}
+
+async function saveAlerts(alerts: AlertsByTab) {
+  try {
+    await chrome.storage.session.set({ [LOOKALIKE_ALERTS_STORAGE_KEY]: alerts })
+  } catch (error) {
+    console.error("Failed to save lookalike alerts:", error)
+  }
+}
+
+function setTabBadge(tabId: number, warning: boolean) {
+  chrome.action.setBadgeText({ tabId, text: warning ? "!" : "" }).catch(() => {
+    // Tab already closed
+  })
+  if (warning) {
+    chrome.action.setBadgeBackgroundColor({ tabId, color: "#dc2626" }).catch(() => {})
+  }
+}
+
+export async function getLookalikeAlert(tabId: number): Promise<LookalikeAlert | null> {
+  const alerts = await loadAlerts()
+  return alerts[tabId] ?? null
+}
+
+/**
+ * Hosts the user already said are fine this browser session
+ */
+export async function isLookalikeAllowed(host: string): Promise<boolean> {
+  try {
+    const res = await chrome.storage.session.get([LOOKALIKE_ALLOWED_STORAGE_KEY])
+    return ((res[LOOKALIKE_ALLOWED_STORAGE_KEY] as string[] | undefined) ?? []).includes(host)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Holds the tab until the user decides, marks the toolbar icon and writes the log entry
+ */
+export async function raiseLookalikeAlert(alert: LookalikeAlert) {
+  const alerts = await loadAlerts()
+  alerts[alert.tabId] = alert
+  await saveAlerts(alerts)
+  await appendToLog(alert)
+  setTabBadge(alert.tabId, true)
+}
+
+/**
+ * Turns a side-panel warning into a blocking one, once the similar-looking page asks for a password.
+ * Returns the updated alert, or null if there's no side-panel warning for the tab.
+ */
+export async function escalateLookalikeAlert(tabId: number): Promise<LookalikeAlert | null> {
+  const alerts = await loadAlerts()
+  const alert = alerts[tabId]
+  if (!alert || alert.blocking) return null
+  alerts[tabId] = { ...alert, blocking: true }
+  await saveAlerts(alerts)
+  await updateLogEntry(alert.id, { blocking: true })
+  return alerts[tabId]
+}
+
+// ============================================
+// WARNING PAGE
+// ============================================
+
+/**
+ * Address of the warning page for an alert; it carries the flagged address along
+ */
+export function getInterstitialUrl(alert: Pick<LookalikeAlert, "url">): string {
+  return `${chrome.runtime.getURL(INTERSTITIAL_PATH)}?url=${encodeURIComponent(alert.url)}`
+}
+
+export function isInterstitialUrl(url: string): boolean {
+  return url.startsWith(chrome.runtime.getURL(INTERSTITIAL_PATH))
+}
+
+async function stepBack(tabId: number) {
+  try {
+    await chrome.tabs.goBack(tabId)
+  } catch {
+    // Nowhere to go back to; leave the page anyway
+    await chrome.tabs.update(tabId, { url: "chrome://newtab/" })
+  }
+}
+
+/**
+ * Going back from the warning page first lands on the flagged page again. If the tab is on its way back past
+ * that host, steps back once more and returns true. Any other address just clears the mark.
+ */
+export async function stepPastLeftLookalike(tabId: number, host: string | undefined): Promise<boolean> {
+  let leaving: Record<string, string> = {}
+  try {
+    const res = await chrome.storage.session.get([LOOKALIKE_LEAVING_STORAGE_KEY])
+    leaving = res[LOOKALIKE_LEAVING_STORAGE_KEY] ?? {}
+  } catch {
+    return false
+  }
+  const leftHost = leaving[tabId]
+  if (leftHost === undefined) return false
+  delete leaving[tabId]
+  await chrome.storage.session.set({ [LOOKALIKE_LEAVING_STORAGE_KEY]: leaving }).catch(() => {})
+  if (leftHost !== host) return false
+  await stepBack(tabId)
+  return true
+}
+
+/**
+ * Carries out the user's answer from the warning page or the side panel: records it, then sends the tab
+ * to the real site, back to where it came from, or on to the flagged page
+ */
+export async function followLookalikeChoice(alert: LookalikeAlert, outcome: Exclude<LookalikeOutcome, "pending" | "left">) {
+  await resolveLookalikeAlert(alert.tabId, outcome)
+  if (outcome === "went-to-real-site") {
+    await chrome.tabs.update(alert.tabId, { url: `https://${alert.trusted}` })
+  } else if (outcome === "continued") {
+    // A side-panel warning never took the page away
+    if (alert.blocking) await chrome.tabs.update(alert.tabId, { url: alert.url })
+  } else if (!alert.blocking) {
+    await stepBack(alert.tabId)
+  } else {
+    try {
+      const res = await chrome.storage.session.get([LOOKALIKE_LEAVING_STORAGE_KEY])
+      const leaving: Record<string, string> = res[LOOKALIKE_LEAVING_STORAGE_KEY] ?? {}
+      await chrome.storage.session.set({ [LOOKALIKE_LEAVING_STORAGE_KEY]: { ...leaving, [alert.tabId]: alert.host } })
+    } catch (error) {
+      console.error("Failed to mark the tab as leaving:", error)
+    }
+    await stepBack(alert.tabId)
+  }
+}
+
+/**
+ * Records the user's decision and releases the tab. "continued" trusts the host for the rest of the session.
+ */
+export async function resolveLookalikeAlert(tabId: number, outcome: Exclude<LookalikeOutcome, "pending">) {
+  const alerts = await loadAlerts()
+  const alert = alerts[tabId]
+  if (!alert) return
+  delete alerts[tabId]
+  await saveAlerts(alerts)
+  setTabBadge(tabId, false)
+
+  if (outcome === "continued") {
+    try {
+      const res = await chrome.storage.session.get([LOOKALIKE_ALLOWED_STORAGE_KEY])
+      const allowed: string[] = res[LOOKALIKE_ALLOWED_STORAGE_KEY] ?? []
+      if (!allowed.includes(alert.host)) {
+        await chrome.storage.session.set({ [LOOKALIKE_ALLOWED_STORAGE_KEY]: [...allowed, alert.host] })
+      }
+    } catch (error) {
+      console.error("Failed to remember allowed host:", error)
+    }
+  }
+
+  await updateLogEntry(alert.id, { outcome, resolvedAt: new Date().toISOString() })
+}
+
+/**
+ * Calls the listener with the pending alerts and again whenever they change.
+ * Returns a function that stops listening.
+ */
+export function subscribeToLookalikeAlerts(listener: (alerts: AlertsByTab) => void): () => void {
+  let active = true
+
+  loadAlerts().then((alerts) => {
+    if (active) listener(alerts)
+  })
+
+  const handleChange = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    if (areaName === "session" && changes[LOOKALIKE_ALERTS_STORAGE_KEY]) {
+      listener(changes[LOOKALIKE_ALERTS_STORAGE_KEY].newValue ?? {})
+    }
+  }
+
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => {
+    active = false
+    chrome.storage.onChanged.removeListener(handleChange)
+  }
+}
+
+// ============================================
+// CAREGIVER LOG
+// ============================================
+
+export async function loadLookalikeLog(): Promise<LookalikeAlert[]> {
+  try {
+    const res = await chrome.storage.local.get([LOOKALIKE_LOG_STORAGE_KEY])
+    return res[LOOKALIKE_LOG_STORAGE_KEY] ?? []
+  } catch {
+    return []
+  }
+}
+
+async function saveLog(log: LookalikeAlert[]) {
+  try {
+    await chrome.storage.local.set({ [LOOKALIKE_LOG_STORAGE_KEY]: log.slice(-MAX_LOG_ENTRIES) })
+  } catch (error) {
+    console.error("Failed to save lookalike log:", error)
+  }
+}
+
+async function appendToLog(alert: LookalikeAlert) {
+  const log = await loadLookalikeLog()
+  await saveLog([...log, alert])
+}
+
+async function updateLogEntry(id: string, update: Partial<LookalikeAlert>) {
+  const log = await loadLookalikeLog()
+  await saveLog(log.map((entry) => (entry.id === id ? { ...entry, ...update } : entry)))
+}
+
+export async function clearLookalikeLog() {
+  await saveLog([])
+}
+
+/**
+ * Calls the listener with the log and again whenever it changes.
+ * Returns a function that stops listening.
+ */
+export function subscribeToLookalikeLog(listener: (log: LookalikeAlert[]) => void): () => void {
+  let active = true
+
+  loadLookalikeLog().then((log) => {
+    if (active) listener(log)
+  })
+
+  const handleChange = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    if (areaName === "local" && changes[LOOKALIKE_LOG_STORAGE_KEY]) {
+      listener(changes[LOOKALIKE_LOG_STORAGE_KEY].newValue ?? [])
+    }
+  }
+
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => {
+    active = false
+    chrome.storage.onChanged.removeListener(handleChange)
+  }
+}
@@ -1,79 +1,150 @@
 // src/lib/page-actions.ts
 // Page manipulation functions for content scripts
 
+import { ELEMENT_REF_ATTRIBUTE, isElementVisible } from "~lib/dom-distiller"
+import { deepQuerySelector, deepQuerySelectorAll, getFrameDocument } from "~lib/dom-roots"
+import type { ClutterRule } from "~lib/clutter-rules"
+import { pickElement } from "~lib/element-picker"
+import {
+  DEFAULT_SAFETY_POLICY,
+  evaluatePolicy,
+  type PolicyActionKind,
+  type SafetyPolicy
+} from "~lib/safety-policy"
+import {
+  insertNode,
+  recordChanges,
+  rememberChecked,
+  rememberContent,
+  revertKind,
+  setAttribute,
+  setNativeValue,
+  setStyle,
+  silenceMedia
+} from "~lib/undo-journal"
+import type { ScopeStep } from "~types/conversation"
+
+/**
+ * Identifies the element an action works on: a ref stamped by the distiller, a CSS selector, or both.
+ * The scope says which iframe or shadow root the selector belongs to.
+ */
+export interface ElementTarget {
+  selector?: string
+  elementRef?: string
+  scope?: ScopeStep[]
+}
+
+/**
+ * Finds the target element, trying the distiller ref first and falling back to the selector.
+ * Refs are unique across frames and shadow roots, so they're searched everywhere.
+ */
+export function resolveElement(target: ElementTarget): HTMLElement | null {
+  if (target.elementRef) {
+    const byRef = deepQuerySelector(`[${ELEMENT_REF_ATTRIBUTE}="${CSS.escape(target.elementRef)}"]`)
+    if (byRef) return byRef as HTMLElement
+  }
+  if (target.selector) {
+    try {
+      return deepQuerySelector(target.selector, target.scope) as HTMLElement | null
+    } catch {
+      // Invalid selector from the agent
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Human-readable description of a target for result messages
+ */
+function describeTarget(target: ElementTarget): string {
+  return target.elementRef || target.selector || "(no target)"
+}
+
+// Pulsing outline and "ACTION!" badge for highlighted elements
+const HIGHLIGHT_CSS = `
+  [data-silver-surfer-highlight="true"] {
+    animation: silver-surfer-jiggle 2s ease-in-out infinite;
+    outline: 4px solid #000 !important;
+    box-shadow: 6px 6px 0 0 #3b82f6 !important;
+  }
+  
+  /* Comic Action Badge */
+  [data-silver-surfer-highlight="true"]::after {
+    content: "ACTION!";
+    position: absolute;
+    top: -30px;
+    left: -10px;
+    background: #fbbf24; /* Comic Yellow */
+    border: 3px solid #000;
+    color: #000;
+    padding: 0px 8px;
+    font-family: "Comic Sans MS", "Chalkboard SE", sans-serif;
+    font-weight: 900;
+    font-size: 14px;
+    box-shadow: 3px 3px 0px 0px #000;
+    z-index: 2147483647;
+    white-space: nowrap;
+    pointer-events: none;
+    animation: silver-surfer-float 1s ease-in-out infinite alternate;
+  }
+
+  @keyframes silver-surfer-jiggle {
+    0%, 100% { transform: rotate(-0.5deg) scale(1.0); }
+    50% { transform: rotate(0.5deg) scale(1.01); }
+  }
+  
+  @keyframes silver-surfer-float {
+    from { transform: translateY(0); }
+    to { transform: translateY(-5px); }
+  }
+`
+
 /**
  * Draws a thick, high-contrast comic-book style border around an element
  */
-export function highlightElement(selector: string): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLElement
+export function highlightElement(target: ElementTarget): { success: boolean; message: string } {
+  const element = resolveElement(target)
   if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
   }
 
   // Remove any existing highlights
   removeHighlights()
 
-  // Create comic-style highlight
-  element.setAttribute("data-silver-surfer-highlight", "true")
-  
-  // Clean up any inline styles we might have set directly previously, relying on the injected stylesheet
-  // We set these merely as fallback, but the stylesheet is the main driver
-  element.style.setProperty("outline", "4px solid #000", "important")
-  element.style.setProperty("outline-offset", "2px", "important")
-  element.style.setProperty("box-shadow", "6px 6px 0 0 #3b82f6", "important") // Comic Blue shadow
-  element.style.setProperty("position", "relative", "important")
-  element.style.setProperty("z-index", "2147483647", "important")
-
-  // Add flashing/pulsing comic animation style
-  const style = document.createElement("style")
-  style.id = "silver-surfer-highlight-style"
-  style.textContent = `
-    [data-silver-surfer-highlight="true"] {
-      animation: silver-surfer-jiggle 2s ease-in-out infinite;
-      outline: 4px solid #000 !important;
-      box-shadow: 6px 6px 0 0 #3b82f6 !important;
-    }
-    
-    /* Comic Action Badge */
-    [data-silver-surfer-highlight="true"]::after {
-      content: "ACTION!";
-      position: absolute;
-      top: -30px;
-      left: -10px;
-      background: #fbbf24; /* Comic Yellow */
-      border: 3px solid #000;
-      color: #000;
-      padding: 0px 8px;
-      font-family: "Comic Sans MS", "Chalkboard SE", sans-serif;
-      font-weight: 900;
-      font-size: 14px;
-      box-shadow: 3px 3px 0px 0px #000;
-      z-index: 2147483647;
-      white-space: nowrap;
-      pointer-events: none;
-      animation: silver-surfer-float 1s ease-in-out infinite alternate;
-    }
+  recordChanges("highlight", `Highlighted ${describeTarget(target)}`, () => {
+    // Create comic-style highlight
+    setAttribute(element, "data-silver-surfer-highlight", "true")
 
-    @keyframes silver-surfer-jiggle {
-      0%, 100% { transform: rotate(-0.5deg) scale(1.0); }
-      50% { transform: rotate(0.5deg) scale(1.01); }
-    }
-    
-    @keyframes silver-surfer-float {
-      from { transform: translateY(0); }
-      to { transform: translateY(-5px); }
-    }
-  `
-  document.head.appendChild(style)
+    // Inline styles are a fallback; the injected stylesheet is the main driver
+    setStyle(element, "outline", "4px solid #000")
+    setStyle(element, "outline-offset", "2px")
+    setStyle(element, "box-shadow", "6px 6px 0 0 #3b82f6") // Comic Blue shadow
+    setStyle(element, "position", "relative")
+    setStyle(element, "z-index", "2147483647")
 
-  return { success: true, message: `Highlighted element: ${selector}` }
+    // Add flashing/pulsing comic animation style
+    const style = document.createElement("style")
+    style.id = "silver-surfer-highlight-style"
+    style.textContent = HIGHLIGHT_CSS
+
+    // The stylesheet has to live in the same document or shadow root as the element to apply
+    const root = element.getRootNode()
+    insertNode(root.nodeType === Node.DOCUMENT_NODE ? (root as Document).head : root, style)
+  })
+
+  return { success: true, message: `Highlighted element: ${describeTarget(target)}` }
 }
 
 /**
  * Removes all Silver Surfer highlights from the page
  */
 export function removeHighlights(): { success: boolean; message: string } {
-  const highlighted = document.querySelectorAll("[data-silver-surfer-highlight]")
+  // Put back each highlighted element's own styles, position included
+  revertKind("highlight")
+
+  // Anything left predates the journal (the extension was reloaded); clear what we can
+  const highlighted = deepQuerySelectorAll("[data-silver-surfer-highlight]")
   highlighted.forEach((el) => {
     const element = el as HTMLElement
     element.removeAttribute("data-silver-surfer-highlight")
@@ -83,8 +154,7 @@ export function removeHighlights(): { success: boolean; message: string } {
     element.style.removeProperty("z-index")
   })
 
-  const style = document.getElementById("silver-surfer-highlight-style")
-  if (style) style.remove()
+  deepQuerySelectorAll("#silver-surfer-highlight-style").forEach((style) => style.remove())
 
   return { success: true, message: "Removed all highlights" }
 }
@@ -103,10 +173,7 @@ export function removeClutter(): { success: boolean; message: string; hiddenCoun
     '[class*="popup"]', '[id*="popup"]',
     '[class*="modal"]', '[id*="modal"]',
     '[class*="overlay"]', '[id*="overlay"]',
-    // Cookie notices
-    '[class*="cookie"]', '[id*="cookie"]',
-    '[class*="consent"]', '[id*="consent"]',
-    '[class*="gdpr"]', '[id*="gdpr"]',
+    // Cookie notices are turned down properly by consent-handler.ts before this runs
     // Auto-playing videos (pause them instead of hiding)
     'video[autoplay]',
     // Newsletter popups
@@ -119,32 +186,27 @@ export function removeClutter(): { success: boolean; message: string; hiddenCoun
   ]
 
   let hiddenCount = 0
-  
-  clutterSelectors.forEach((selector) => {
-    try {
-      const elements = document.querySelectorAll(selector)
-      elements.forEach((el) => {
-        const element = el as HTMLElement
-        
-        // Skip if it's likely important content
-        const isMainContent = element.closest("main, article, [role='main']")
-        const isNavigation = element.closest("nav, header")
-        
-        if (!isMainContent && !isNavigation) {
-          // For videos, pause instead of hiding
-          if (element.tagName === "VIDEO") {
-            (element as HTMLVideoElement).pause()
-            ;(element as HTMLVideoElement).muted = true
-          } else {
-            element.setAttribute("data-silver-surfer-hidden", "true")
-            element.style.setProperty("display", "none", "important")
-          }
-          hiddenCount++
+
+  // One pass over the page, its open shadow roots and same-origin frames, where restoreClutter looks too
+  recordChanges("clutter", "Hid distracting elements", () => {
+    deepQuerySelectorAll(clutterSelectors.join(", ")).forEach((el) => {
+      const element = el as HTMLElement
+
+      // Skip if it's likely important content, or the user told us to keep it on this site
+      const isMainContent = element.closest("main, article, [role='main']")
+      const isNavigation = element.closest("nav, header")
+
+      if (!isMainContent && !isNavigation && !isKeptBySite(element)) {
+        // For videos, pause instead of hiding
+        if (element.tagName === "VIDEO") {
+          silenceMedia(element as HTMLVideoElement)
+        } else {
+          setAttribute(element, "data-silver-surfer-hidden", "true")
+          setStyle(element, "display", "none")
         }
-      })
-    } catch (e) {
-      // Invalid selector, skip
-    }
+        hiddenCount++
+      }
+    })
   })
 
   return { success: true, message: `Hidden ${hiddenCount} distracting elements`, hiddenCount }
@@ -154,41 +216,43 @@ export function removeClutter(): { success: boolean; message: string; hiddenCoun
  * Restores hidden clutter elements
  */
 export function restoreClutter(): { success: boolean; message: string } {
-  const hidden = document.querySelectorAll("[data-silver-surfer-hidden]")
-  hidden.forEach((el) => {
+  const undone = revertKind("clutter")
+
+  // Elements hidden before the journal existed (the extension was reloaded)
+  const leftovers = deepQuerySelectorAll("[data-silver-surfer-hidden]")
+  leftovers.forEach((el) => {
     const element = el as HTMLElement
     element.removeAttribute("data-silver-surfer-hidden")
     element.style.removeProperty("display")
   })
 
-  return { success: true, message: `Restored ${hidden.length} elements` }
+  if (undone === 0 && leftovers.length === 0) {
+    return { success: true, message: "Nothing was hidden" }
+  }
+  return { success: true, message: "Restored the hidden elements" }
 }
 
 /**
  * Increases font size and contrast of a specific element without breaking layout
  */
-export function magnifyText(selector: string, scaleFactor: number = 1.3): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLElement
+export function magnifyText(target: ElementTarget, scaleFactor: number = 1.3): { success: boolean; message: string } {
+  const element = resolveElement(target)
   if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
   }
 
-  // Store original values
-  const originalFontSize = window.getComputedStyle(element).fontSize
-  const originalLineHeight = window.getComputedStyle(element).lineHeight
-
-  element.setAttribute("data-silver-surfer-magnified", "true")
-  element.setAttribute("data-original-font-size", originalFontSize)
-  element.setAttribute("data-original-line-height", originalLineHeight)
-
-  const currentSize = parseFloat(originalFontSize)
+  // The journal keeps the element's own inline styles for the reset
+  const currentSize = parseFloat(window.getComputedStyle(element).fontSize)
   const newSize = currentSize * scaleFactor
 
-  element.style.setProperty("font-size", `${newSize}px`, "important")
-  element.style.setProperty("line-height", "1.6", "important")
-  element.style.setProperty("color", "#111827", "important")
-  element.style.setProperty("font-weight", "500", "important")
-  element.style.setProperty("letter-spacing", "0.025em", "important")
+  recordChanges("magnify", `Magnified ${describeTarget(target)}`, () => {
+    setAttribute(element, "data-silver-surfer-magnified", "true")
+    setStyle(element, "font-size", `${newSize}px`)
+    setStyle(element, "line-height", "1.6")
+    setStyle(element, "color", "#111827")
+    setStyle(element, "font-weight", "500")
+    setStyle(element, "letter-spacing", "0.025em")
+  })
 
   return { success: true, message: `Magnified text from ${currentSize}px to ${newSize}px` }
 }
@@ -197,15 +261,14 @@ export function magnifyText(selector: string, scaleFactor: number = 1.3): { succ
  * Resets magnified text to original state
  */
 export function resetMagnification(): { success: boolean; message: string } {
-  const magnified = document.querySelectorAll("[data-silver-surfer-magnified]")
-  magnified.forEach((el) => {
-    const element = el as HTMLElement
-    const originalFontSize = element.getAttribute("data-original-font-size")
-    const originalLineHeight = element.getAttribute("data-original-line-height")
+  const magnified = deepQuerySelectorAll("[data-silver-surfer-magnified]")
+  revertKind("magnify")
 
-    if (originalFontSize) element.style.fontSize = originalFontSize
-    if (originalLineHeight) element.style.lineHeight = originalLineHeight
-    
+  // Elements magnified before the journal existed (the extension was reloaded)
+  deepQuerySelectorAll("[data-silver-surfer-magnified]").forEach((el) => {
+    const element = el as HTMLElement
+    element.style.removeProperty("font-size")
+    element.style.removeProperty("line-height")
     element.style.removeProperty("color")
     element.style.removeProperty("font-weight")
     element.style.removeProperty("letter-spacing")
@@ -220,10 +283,10 @@ export function resetMagnification(): { success: boolean; message: string } {
 /**
  * Smoothly scrolls the page so the target element is perfectly centered
  */
-export function scrollToView(selector: string): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLElement
+export function scrollToView(target: ElementTarget): { success: boolean; message: string } {
+  const element = resolveElement(target)
   if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
   }
 
   element.scrollIntoView({
@@ -232,93 +295,171 @@ export function scrollToView(selector: string): { success: boolean; message: str
     inline: "center"
   })
 
-  // Highlight briefly after scrolling
-  setTimeout(() => {
-    highlightElement(selector)
-    setTimeout(() => removeHighlights(), 3000)
-  }, 500)
+  // Outline it for a moment once the scroll lands. An animation leaves nothing behind on the page,
+  // so other highlights and the undo history stay as they were.
+  const flash = { outline: "4px solid #000", outlineOffset: "2px", boxShadow: "6px 6px 0 0 #3b82f6" }
+  element.animate([flash, flash], { delay: 500, duration: 3000 })
 
-  return { success: true, message: `Scrolled to element: ${selector}` }
+  return { success: true, message: `Scrolled to element: ${describeTarget(target)}` }
 }
 
+// ============================================
+// SAFETY POLICY - Which clicks and fills need the user
+// ============================================
+
 /**
- * Clicks a button or link on behalf of the user
- * Only allows safe navigation actions, blocks payment/confirmation buttons
+ * Result of a page action the safety policy can stop. needsConfirmation means the policy wants
+ * the user's OK; the side panel asks and sends the action again with confirmed set.
  */
-export function clickElement(selector: string): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLElement
-  if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
-  }
+export interface PageActionResult {
+  success: boolean
+  message: string
+  needsConfirmation?: boolean
+}
 
-  // Check for unsafe actions
-  const unsafePatterns = [
-    /pay/i, /purchase/i, /buy/i, /checkout/i, /order/i,
-    /confirm/i, /submit.*order/i, /complete.*purchase/i,
-    /delete/i, /remove/i, /cancel.*subscription/i,
-    /sign.*out/i, /log.*out/i, /disconnect/i,
-    /unsubscribe/i, /deactivate/i
+let activeSafetyPolicy: SafetyPolicy = DEFAULT_SAFETY_POLICY
+
+/**
+ * Replaces the policy page actions are checked against (the page runtime keeps it in sync with Settings)
+ */
+export function applySafetyPolicy(policy: SafetyPolicy) {
+  activeSafetyPolicy = policy
+}
+
+/**
+ * Everything a person would read to know what a control does: its text, value, labels and hints
+ */
+function getPolicyText(element: HTMLElement, kind: PolicyActionKind): string {
+  const input = element as HTMLInputElement
+  const labels = input.labels ? Array.from(input.labels).map(l => l.textContent || "") : []
+  const parts = [
+    ...labels,
+    element.getAttribute("aria-label"),
+    element.getAttribute("title")
   ]
+  if (kind === "click") {
+    parts.push(element.textContent, input.value)
+  } else {
+    parts.push(input.name, element.id, input.placeholder)
+  }
+  return parts.filter(Boolean).join(" ")
+}
 
-  const elementText = element.textContent || ""
-  const elementValue = (element as HTMLInputElement).value || ""
-  const ariaLabel = element.getAttribute("aria-label") || ""
-  const combinedText = `${elementText} ${elementValue} ${ariaLabel}`.toLowerCase()
+/**
+ * Returns the result to report instead of acting when the policy blocks the action or wants confirmation
+ */
+function checkSafetyPolicy(kind: PolicyActionKind, element: HTMLElement, confirmed: boolean): PageActionResult | null {
+  const autocomplete = element.getAttribute("autocomplete") || ""
+  const decision = evaluatePolicy(activeSafetyPolicy, {
+    kind,
+    text: getPolicyText(element, kind),
+    fieldTypes: kind === "fill" ? [(element as HTMLInputElement).type, ...autocomplete.split(/\s+/)].filter(Boolean) : undefined,
+    url: window.location.href
+  })
 
-  for (const pattern of unsafePatterns) {
-    if (pattern.test(combinedText)) {
-      return { 
-        success: false, 
-        message: `Blocked: This appears to be a sensitive action (${pattern.source}). Please click manually.` 
-      }
-    }
+  if (decision.outcome === "block") {
+    return { success: false, message: `Blocked by your safety settings: ${decision.reason}. Please do this step yourself.` }
+  }
+  if (decision.outcome === "confirm" && !confirmed) {
+    return { success: false, needsConfirmation: true, message: `Needs your OK first: ${decision.reason}` }
   }
+  return null
+}
+
+/**
+ * Clicks a button or link on behalf of the user
+ * Payment, deletion and similar buttons are stopped or need confirmation, per the safety policy
+ */
+export function clickElement(target: ElementTarget, confirmed: boolean = false): PageActionResult {
+  const element = resolveElement(target)
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  // Check for unsafe actions
+  const blocked = checkSafetyPolicy("click", element, confirmed)
+  if (blocked) return blocked
 
   // Perform the click
   element.click()
-  return { success: true, message: `Clicked element: ${selector}` }
+  return { success: true, message: `Clicked element: ${describeTarget(target)}` }
+}
+
+/**
+ * Replaces the content of a contenteditable editor the way typing would, so the editor's own
+ * handlers see it; falls back to setting the text directly
+ */
+function fillContentEditable(element: HTMLElement, value: string) {
+  const doc = element.ownerDocument
+  rememberContent(element)
+  element.focus()
+  const selection = doc.getSelection()
+  if (selection) {
+    const range = doc.createRange()
+    range.selectNodeContents(element)
+    selection.removeAllRanges()
+    selection.addRange(range)
+  }
+  if (!doc.execCommand("insertText", false, value)) {
+    element.textContent = value
+    element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: value }))
+  }
 }
 
+const DATE_INPUT_TYPES = ["date", "datetime-local", "month", "time", "week"]
+
 /**
- * Types text into an input field
+ * Types text into an input field, textarea or rich text editor
  */
-export function fillFormField(selector: string, value: string): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLInputElement | HTMLTextAreaElement
+export function fillFormField(target: ElementTarget, value: string, confirmed: boolean = false): PageActionResult {
+  const element = resolveElement(target) as HTMLInputElement | HTMLTextAreaElement
   if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  const filledMessage = `Filled field with: "${value.substring(0, 20)}${value.length > 20 ? "..." : ""}"`
+
+  if (element.isContentEditable) {
+    const blocked = checkSafetyPolicy("fill", element, confirmed)
+    if (blocked) return blocked
+    recordChanges("fill", `Filled ${describeTarget(target)}`, () => fillContentEditable(element, value))
+    return { success: true, message: filledMessage }
   }
 
   if (!["INPUT", "TEXTAREA"].includes(element.tagName)) {
     return { success: false, message: `Element is not an input field: ${element.tagName}` }
   }
 
-  // Check for sensitive fields we shouldn't auto-fill
-  const sensitiveTypes = ["password", "credit-card", "cc-number", "cc-exp", "cc-csc", "cvv"]
+  // Inputs whose value isn't free text have their own actions
   const inputType = (element as HTMLInputElement).type || ""
-  const autoComplete = element.getAttribute("autocomplete") || ""
-
-  if (sensitiveTypes.includes(inputType) || sensitiveTypes.some(t => autoComplete.includes(t))) {
-    return { success: false, message: "Blocked: Cannot auto-fill sensitive fields (passwords, credit cards)" }
+  if (inputType === "checkbox") {
+    return { success: false, message: "This is a checkbox; use toggle_checkbox instead" }
+  }
+  if (inputType === "radio") {
+    return { success: false, message: "This is a radio button; use choose_radio instead" }
+  }
+  if (DATE_INPUT_TYPES.includes(inputType)) {
+    return setDate(target, value, confirmed)
   }
 
-  // Focus and fill
-  element.focus()
-  element.value = value
+  // Check for sensitive fields we shouldn't auto-fill
+  const blocked = checkSafetyPolicy("fill", element, confirmed)
+  if (blocked) return blocked
 
-  // Dispatch events to trigger any listeners
-  element.dispatchEvent(new Event("input", { bubbles: true }))
-  element.dispatchEvent(new Event("change", { bubbles: true }))
+  // Focus and fill, dispatching events to trigger any listeners; the old value is kept for undo
+  element.focus()
+  recordChanges("fill", `Filled ${describeTarget(target)}`, () => setNativeValue(element, value))
 
-  return { success: true, message: `Filled field with: "${value.substring(0, 20)}${value.length > 20 ? "..." : ""}"` }
+  return { success: true, message: filledMessage }
 }
 
 /**
  * Picks an option from a dropdown menu
  */
-export function selectDropdown(selector: string, value: string): { success: boolean; message: string } {
-  const element = document.querySelector(selector) as HTMLSelectElement
+export function selectDropdown(target: ElementTarget, value: string, confirmed: boolean = false): PageActionResult {
+  const element = resolveElement(target) as HTMLSelectElement
   if (!element) {
-    return { success: false, message: `Element not found: ${selector}` }
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
   }
 
   if (element.tagName !== "SELECT") {
@@ -326,350 +467,755 @@ export function selectDropdown(selector: string, value: string): { success: bool
   }
 
   // Find the option by value or text
-  let optionFound = false
-  for (const option of Array.from(element.options)) {
-    if (option.value === value || option.textContent?.trim().toLowerCase() === value.toLowerCase()) {
-      element.value = option.value
-      optionFound = true
-      break
-    }
-  }
+  const option = Array.from(element.options).find(
+    o => o.value === value || o.textContent?.trim().toLowerCase() === value.toLowerCase()
+  )
 
-  if (!optionFound) {
+  if (!option) {
     const availableOptions = Array.from(element.options).map(o => o.textContent?.trim()).join(", ")
     return { success: false, message: `Option "${value}" not found. Available: ${availableOptions}` }
   }
 
-  // Dispatch change event
-  element.dispatchEvent(new Event("change", { bubbles: true }))
+  const blocked = checkSafetyPolicy("fill", element, confirmed)
+  if (blocked) return blocked
+
+  // Set it the way a user would, firing change; the previous choice is kept for undo
+  recordChanges("fill", `Selected "${value}" in ${describeTarget(target)}`, () => setNativeValue(element, option.value))
 
   return { success: true, message: `Selected option: "${value}"` }
 }
 
 // ============================================
-// DOM DISTILLER - LLM-friendly page structure
+// FORM WIDGETS - Checkboxes, radios, dates, custom listboxes
 // ============================================
 
-interface DOMElement {
-  index: number // Position in document flow
-  selector: string
-  tag: string
-  type?: string // For inputs/buttons
-  role?: string
-  text?: string
-  placeholder?: string
-  value?: string
-  href?: string
-  src?: string
-  alt?: string
-  ariaLabel?: string
-  isVisible: boolean
-  isInteractive: boolean
-  options?: string[] // For select elements
+/**
+ * Visible label text for a form control: its <label>, aria-label, or own text
+ */
+function getControlLabel(element: HTMLElement): string {
+  const labels = (element as HTMLInputElement).labels
+  const labelText = labels && labels.length > 0
+    ? Array.from(labels).map(l => l.textContent || "").join(" ")
+    : ""
+  return (labelText || element.getAttribute("aria-label") || element.textContent || "")
+    .trim()
+    .replace(/\s+/g, " ")
 }
 
-interface DistilledDOM {
-  url: string
-  title: string
-  metaDescription: string | null
-  fullText: string // Full text content of the page
-  timestamp: string
-  viewport: { width: number; height: number }
-  summary: {
-    totalElements: number
-    interactiveElements: number
-    headings: number
-    links: number
-    buttons: number
-    inputs: number
-    images: number
-  }
-  elements: DOMElement[] // Flat list in document flow order
+/**
+ * Clicks the way a pointer would, for widgets that listen to mousedown/pointerdown instead of click
+ */
+function clickLikeUser(element: HTMLElement) {
+  const init = { bubbles: true, cancelable: true, composed: true, button: 0 }
+  element.dispatchEvent(new PointerEvent("pointerdown", init))
+  element.dispatchEvent(new MouseEvent("mousedown", init))
+  element.dispatchEvent(new PointerEvent("pointerup", init))
+  element.dispatchEvent(new MouseEvent("mouseup", init))
+  element.click()
 }
 
+function isChecked(element: HTMLElement): boolean {
+  if (element.tagName === "INPUT") return (element as HTMLInputElement).checked
+  return element.getAttribute("aria-checked") === "true"
+}
+
+// Custom checkboxes and radios often flip on the framework's next render rather than during the click
+const CHECKED_STATE_WAIT_MS = 300
+const CHECKED_STATE_POLL_MS = 50
+
 /**
- * Generates a unique CSS selector for an element
+ * Resolves true once the control shows the wanted state, false if it still doesn't after a short wait
  */
-function generateSelector(element: Element): string {
-  // Try ID first (most reliable)
-  if (element.id) {
-    return `#${CSS.escape(element.id)}`
-  }
-
-  // Try unique class combination
-  if (element.classList.length > 0) {
-    const classes = Array.from(element.classList).slice(0, 3).map(c => `.${CSS.escape(c)}`).join("")
-    const matches = document.querySelectorAll(classes)
-    if (matches.length === 1) {
-      return classes
+async function waitForCheckedState(element: HTMLElement, wanted: boolean): Promise<boolean> {
+  const deadline = Date.now() + CHECKED_STATE_WAIT_MS
+  while (isChecked(element) !== wanted) {
+    if (Date.now() >= deadline) return false
+    await new Promise(resolve => setTimeout(resolve, CHECKED_STATE_POLL_MS))
+  }
+  return true
+}
+
+/**
+ * Ticks or unticks a checkbox or switch (native or ARIA). Without a desired state it flips it.
+ */
+export async function toggleCheckbox(target: ElementTarget, checked?: boolean, confirmed: boolean = false): Promise<PageActionResult> {
+  let element = resolveElement(target)
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  // Agents often point at the label; follow it to its control
+  if (element.tagName === "LABEL" && (element as HTMLLabelElement).control) {
+    element = (element as HTMLLabelElement).control as HTMLElement
+  }
+
+  const role = element.getAttribute("role")
+  const isNativeCheckbox = element.tagName === "INPUT" && (element as HTMLInputElement).type === "checkbox"
+  if (!isNativeCheckbox && role !== "checkbox" && role !== "switch") {
+    return { success: false, message: `Element is not a checkbox: ${element.tagName}` }
+  }
+
+  const label = getControlLabel(element) || describeTarget(target)
+  const wanted = checked ?? !isChecked(element)
+  if (isChecked(element) === wanted) {
+    return { success: true, message: `"${label}" was already ${wanted ? "checked" : "unchecked"}` }
+  }
+
+  const blocked = checkSafetyPolicy("click", element, confirmed)
+  if (blocked) return blocked
+
+  const control = element
+  recordChanges("choice", `${wanted ? "Checked" : "Unchecked"} "${label}"`, () => {
+    rememberChecked([control])
+    clickLikeUser(control)
+  })
+
+  if (!(await waitForCheckedState(control, wanted))) {
+    return { success: false, message: `Clicked "${label}" but it didn't change; it may be disabled` }
+  }
+  return { success: true, message: `${wanted ? "Checked" : "Unchecked"} "${label}"` }
+}
+
+/**
+ * Picks a radio button. The target can be the radio itself, or its group (fieldset, radiogroup,
+ * or any radio in it) together with the visible label or value of the choice.
+ */
+export async function chooseRadio(target: ElementTarget, value?: string, confirmed: boolean = false): Promise<PageActionResult> {
+  const element = resolveElement(target)
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  const isRadio = (el: Element) =>
+    (el.tagName === "INPUT" && (el as HTMLInputElement).type === "radio") || el.getAttribute("role") === "radio"
+
+  let choice: HTMLElement | null = isRadio(element) ? element : null
+
+  if (value) {
+    // Collect the group: radios sharing the name, or radios inside the target container
+    const root = element.getRootNode() as Document | ShadowRoot
+    const name = (element as HTMLInputElement).name
+    const candidates = isRadio(element) && name
+      ? Array.from(root.querySelectorAll<HTMLElement>(`input[type="radio"][name="${CSS.escape(name)}"]`))
+      : Array.from(element.querySelectorAll<HTMLElement>("input[type='radio'], [role='radio']"))
+
+    const wanted = value.trim().toLowerCase()
+    choice = candidates.find(r => getControlLabel(r).toLowerCase() === wanted || (r as HTMLInputElement).value?.toLowerCase() === wanted) ||
+             candidates.find(r => getControlLabel(r).toLowerCase().includes(wanted)) ||
+             null
+
+    if (!choice) {
+      const available = candidates.map(r => getControlLabel(r) || (r as HTMLInputElement).value).filter(Boolean).join(", ")
+      return { success: false, message: `Choice "${value}" not found. Available: ${available || "none"}` }
     }
   }
 
-  // Try data attributes
-  for (const attr of element.attributes) {
-    if (attr.name.startsWith("data-") && attr.value) {
-      const selector = `[${attr.name}="${CSS.escape(attr.value)}"]`
-      const matches = document.querySelectorAll(selector)
-      if (matches.length === 1) {
-        return selector
-      }
+  if (!choice) {
+    return { success: false, message: "Element is not a radio button; give the choice to pick from this group" }
+  }
+
+  const label = getControlLabel(choice) || value || describeTarget(target)
+  if (isChecked(choice)) {
+    return { success: true, message: `"${label}" was already chosen` }
+  }
+
+  const blocked = checkSafetyPolicy("click", choice, confirmed)
+  if (blocked) return blocked
+
+  // Undo has to re-check whichever radio in the group was chosen before
+  const radio = choice
+  const groupName = (radio as HTMLInputElement).name
+  const group = radio.tagName === "INPUT" && groupName
+    ? Array.from((radio.getRootNode() as Document | ShadowRoot).querySelectorAll<HTMLElement>(`input[type="radio"][name="${CSS.escape(groupName)}"]`))
+    : [radio]
+  recordChanges("choice", `Chose "${label}"`, () => {
+    rememberChecked(group)
+    clickLikeUser(radio)
+  })
+
+  if (!(await waitForCheckedState(radio, true))) {
+    return { success: false, message: `Clicked "${label}" but it wasn't chosen; it may be disabled` }
+  }
+  return { success: true, message: `Chose "${label}"` }
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+/**
+ * Converts a date the agent wrote ("1950-03-05", "March 5, 1950", "3:30 pm") into the format
+ * a date/time input expects, or null if it can't be understood
+ */
+function toDateInputValue(type: string, value: string): string | null {
+  const trimmed = value.trim()
+  const formats: Record<string, RegExp> = {
+    "date": /^\d{4}-\d{2}-\d{2}$/,
+    "datetime-local": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/,
+    "month": /^\d{4}-\d{2}$/,
+    "time": /^\d{2}:\d{2}(:\d{2})?$/,
+    "week": /^\d{4}-W\d{2}$/
+  }
+  if (formats[type]?.test(trimmed)) return trimmed
+
+  if (type === "time") {
+    const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(trimmed)
+    if (!match) return null
+    let hours = parseInt(match[1], 10)
+    const meridiem = match[3]?.toLowerCase()
+    if (meridiem === "pm" && hours < 12) hours += 12
+    if (meridiem === "am" && hours === 12) hours = 0
+    if (hours > 23) return null
+    return `${pad(hours)}:${match[2] || "00"}`
+  }
+
+  const parsed = new Date(trimmed)
+  if (isNaN(parsed.getTime())) return null
+  const date = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`
+  if (type === "date") return date
+  if (type === "month") return date.substring(0, 7)
+  if (type === "datetime-local") return `${date}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}`
+  return null
+}
+
+/**
+ * Fills a date, time or month field. Native pickers get the exact format they need;
+ * text fields used by custom date pickers get the value as written.
+ */
+export function setDate(target: ElementTarget, value: string, confirmed: boolean = false): PageActionResult {
+  const element = resolveElement(target) as HTMLInputElement
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  if (element.tagName !== "INPUT") {
+    return { success: false, message: `Element is not a date field: ${element.tagName}` }
+  }
+
+  let inputValue = value
+  if (DATE_INPUT_TYPES.includes(element.type)) {
+    const converted = toDateInputValue(element.type, value)
+    if (!converted) {
+      return { success: false, message: `Couldn't understand "${value}" as a ${element.type}` }
     }
+    inputValue = converted
   }
 
-  // Build path-based selector
-  const path: string[] = []
-  let current: Element | null = element
+  const blocked = checkSafetyPolicy("fill", element, confirmed)
+  if (blocked) return blocked
+
+  element.focus()
+  recordChanges("fill", `Set ${describeTarget(target)} to ${inputValue}`, () => setNativeValue(element, inputValue))
 
-  while (current && current !== document.body) {
-    let selector = current.tagName.toLowerCase()
-    
-    if (current.id) {
-      selector = `#${CSS.escape(current.id)}`
-      path.unshift(selector)
-      break
+  // Browsers silently drop values outside min/max or in the wrong format
+  if (!element.value) {
+    return { success: false, message: `The field rejected "${inputValue}"; it may be outside the allowed range` }
+  }
+  element.blur()
+  return { success: true, message: `Set date to ${inputValue}` }
+}
+
+/**
+ * The listbox a combobox controls, if it's open in the page
+ */
+function findControlledListbox(element: HTMLElement): HTMLElement | null {
+  if (element.getAttribute("role") === "listbox") return element
+
+  const root = element.getRootNode() as Document | ShadowRoot
+  for (const attr of ["aria-controls", "aria-owns"]) {
+    const ids = element.getAttribute(attr)?.split(/\s+/) ?? []
+    for (const id of ids) {
+      const listbox = id && root.getElementById?.(id)
+      if (listbox) return listbox as HTMLElement
     }
+  }
+
+  const nested = element.querySelector<HTMLElement>("[role='listbox']")
+  if (nested) return nested
 
-    // Add nth-child if needed
-    const parent = current.parentElement
-    if (parent) {
-      const siblings = Array.from(parent.children).filter(c => c.tagName === current!.tagName)
-      if (siblings.length > 1) {
-        const index = siblings.indexOf(current) + 1
-        selector += `:nth-of-type(${index})`
+  // Many libraries render the popup at the end of <body>; use the one that's showing
+  const showing = deepQuerySelectorAll("[role='listbox']").find(el => isElementVisible(el))
+  return (showing as HTMLElement | undefined) ?? null
+}
+
+const OPTION_WAIT_MS = 2000
+const OPTION_POLL_MS = 100
+
+/**
+ * Picks an option by visible text from a native select, or from an ARIA combobox/listbox:
+ * opens it (typing the text into searchable comboboxes), waits for the options to render, then clicks the match
+ */
+export async function chooseOption(target: ElementTarget, optionText: string, confirmed: boolean = false): Promise<PageActionResult> {
+  const element = resolveElement(target)
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
+
+  if (element.tagName === "SELECT") {
+    return selectDropdown(target, optionText, confirmed)
+  }
+
+  let listbox = findControlledListbox(element)
+  if (!listbox || !isElementVisible(listbox)) {
+    if (element.tagName === "INPUT") {
+      // Searchable combobox: typing filters the list and usually opens it; the typed text is kept for undo
+      const input = element as HTMLInputElement
+      input.focus()
+      recordChanges("fill", `Typed "${optionText}" in ${describeTarget(target)}`, () => setNativeValue(input, optionText))
+    }
+    if (element.getAttribute("aria-expanded") !== "true") {
+      clickLikeUser(element)
+    }
+  }
+
+  const wanted = optionText.trim().toLowerCase()
+  const deadline = Date.now() + OPTION_WAIT_MS
+  let options: HTMLElement[] = []
+
+  while (Date.now() < deadline) {
+    listbox = findControlledListbox(element)
+    options = listbox
+      ? Array.from(listbox.querySelectorAll<HTMLElement>("[role='option']")).filter(o => isElementVisible(o))
+      : []
+    const match = options.find(o => (o.textContent || "").trim().toLowerCase() === wanted) ||
+                  options.find(o => (o.textContent || "").toLowerCase().includes(wanted))
+    if (match) {
+      if (match.getAttribute("aria-disabled") === "true") {
+        return { success: false, message: `Option "${optionText}" is disabled` }
       }
+      const blocked = checkSafetyPolicy("click", match, confirmed)
+      if (blocked) return blocked
+      match.scrollIntoView({ block: "nearest" })
+      clickLikeUser(match)
+      return { success: true, message: `Chose option: "${(match.textContent || optionText).trim()}"` }
     }
+    await new Promise(resolve => setTimeout(resolve, OPTION_POLL_MS))
+  }
 
-    path.unshift(selector)
-    current = parent
+  if (!listbox) {
+    return { success: false, message: "Couldn't open the list of options" }
   }
+  const available = options.map(o => (o.textContent || "").trim()).filter(Boolean).slice(0, 15).join(", ")
+  return { success: false, message: `Option "${optionText}" not found. Available: ${available || "none"}` }
+}
+
+// ============================================
+// KEYBOARD - Key presses with their default behaviour
+// ============================================
 
-  return path.join(" > ")
+const KEY_ALIASES: Record<string, string> = {
+  esc: "Escape",
+  escape: "Escape",
+  enter: "Enter",
+  return: "Enter",
+  tab: "Tab",
+  space: " ",
+  spacebar: " ",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight"
 }
 
+const FOCUSABLE_SELECTOR = [
+  "a[href]", "button:not([disabled])", "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])", "textarea:not([disabled])",
+  "[tabindex]:not([tabindex='-1'])", "[contenteditable='true']"
+].join(", ")
+
 /**
- * Checks if an element is visible in the viewport
+ * The focused element, following focus into shadow roots and same-origin frames
  */
-function isElementVisible(element: Element): boolean {
-  const style = window.getComputedStyle(element)
-  if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") {
-    return false
+function getFocusedElement(): HTMLElement | null {
+  let active: Element | null = document.activeElement
+  while (active) {
+    const inner: Element | null | undefined = active.shadowRoot
+      ? active.shadowRoot.activeElement
+      : getFrameDocument(active)?.activeElement
+    if (!inner || inner === active) break
+    active = inner
   }
-  
-  const rect = element.getBoundingClientRect()
-  return rect.width > 0 && rect.height > 0
+  return active as HTMLElement | null
 }
 
 /**
- * Truncates text to a reasonable length for LLM context
+ * Moves focus to the next (or previous) focusable element in the same document or shadow root
  */
-function truncateText(text: string | null | undefined, maxLength: number = 100): string | undefined {
-  if (!text) return undefined
-  const cleaned = text.trim().replace(/\s+/g, " ")
-  if (cleaned.length <= maxLength) return cleaned
-  return cleaned.substring(0, maxLength) + "..."
+function moveFocus(from: HTMLElement, backwards: boolean): HTMLElement | null {
+  const root = from.getRootNode() as Document | ShadowRoot
+  const focusable = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+    .filter((el) => el === from || isElementVisible(el))
+  if (focusable.length === 0) return null
+
+  const current = focusable.indexOf(from)
+  const nextIndex = current === -1
+    ? (backwards ? focusable.length - 1 : 0)
+    : (current + (backwards ? -1 : 1) + focusable.length) % focusable.length
+  const next = focusable[nextIndex]
+  next.focus()
+  return next
 }
 
 /**
- * Extracts element information for LLM consumption
+ * Presses a key on the target element, or on whatever has focus when no target is given.
+ * Synthetic key events don't trigger the browser's own behaviour, so the important defaults
+ * are reproduced: Enter submits forms and activates buttons and links, Space toggles,
+ * Tab / Shift+Tab move focus. Accepts modifiers like "Shift+Tab".
  */
-function extractElementInfo(element: Element, index: number): DOMElement {
-  const el = element as HTMLElement
-  const inputEl = element as HTMLInputElement
-  const selectEl = element as HTMLSelectElement
-
-  const info: DOMElement = {
-    index,
-    selector: generateSelector(element),
-    tag: element.tagName.toLowerCase(),
-    isVisible: isElementVisible(element),
-    isInteractive: ["A", "BUTTON", "INPUT", "SELECT", "TEXTAREA"].includes(element.tagName) ||
-                   el.getAttribute("role") === "button" ||
-                   el.onclick !== null ||
-                   el.hasAttribute("tabindex")
-  }
-
-  // Text content
-  const directText = Array.from(element.childNodes)
-    .filter(n => n.nodeType === Node.TEXT_NODE)
-    .map(n => n.textContent?.trim())
-    .filter(Boolean)
-    .join(" ")
-  
-  info.text = truncateText(directText || element.textContent)
+export function pressKey(target: ElementTarget, keyCombo: string, confirmed: boolean = false): PageActionResult {
+  const hasTarget = Boolean(target.elementRef || target.selector)
+  const element = hasTarget ? resolveElement(target) : getFocusedElement() ?? document.body
+  if (!element) {
+    return { success: false, message: `Element not found: ${describeTarget(target)}` }
+  }
 
-  // Type for inputs/buttons
-  if (inputEl.type) info.type = inputEl.type
-  
-  // Role
-  const role = el.getAttribute("role")
-  if (role) info.role = role
+  const parts = keyCombo.split("+").map((part) => part.trim()).filter(Boolean)
+  const rawKey = parts.pop() || ""
+  const modifiers = parts.map((part) => part.toLowerCase())
+  const key = KEY_ALIASES[rawKey.toLowerCase()] ?? rawKey
+  if (!key) {
+    return { success: false, message: "No key given" }
+  }
+
+  if (hasTarget) element.focus()
+
+  const eventInit: KeyboardEventInit = {
+    key,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    shiftKey: modifiers.includes("shift"),
+    ctrlKey: modifiers.includes("ctrl") || modifiers.includes("control"),
+    altKey: modifiers.includes("alt"),
+    metaKey: modifiers.includes("meta") || modifiers.includes("cmd")
+  }
+
+  const notCancelled = element.dispatchEvent(new KeyboardEvent("keydown", eventInit))
+  if (key === "Enter" || key.length === 1) {
+    // Older sites still listen for keypress to catch Enter
+    element.dispatchEvent(new KeyboardEvent("keypress", eventInit))
+  }
+
+  let effect = ""
+  if (notCancelled) {
+    const tag = element.tagName
+    const type = (element as HTMLInputElement).type
+    const role = element.getAttribute("role")
+    const isButtonLike = tag === "BUTTON" || tag === "A" || role === "button" || role === "link" ||
+      (tag === "INPUT" && ["submit", "button", "reset", "image"].includes(type))
+
+    if (key === "Enter" && isButtonLike) {
+      const blocked = checkSafetyPolicy("click", element, confirmed)
+      if (blocked) return blocked
+      element.click()
+      effect = " and activated it"
+    } else if (key === "Enter" && tag === "INPUT") {
+      const form = (element as HTMLInputElement).form
+      if (form) {
+        // Enter submits through the form's default button, so it gets the same safety check as a click
+        const submitter = form.querySelector<HTMLElement>("button:not([type]), button[type='submit'], input[type='submit']")
+        const blocked = submitter ? checkSafetyPolicy("click", submitter, confirmed) : null
+        if (blocked) return blocked
+        form.requestSubmit()
+        effect = " and submitted the form"
+      }
+    } else if (key === " " && (isButtonLike || type === "checkbox" || type === "radio" || role === "checkbox" || role === "switch")) {
+      const blocked = checkSafetyPolicy("click", element, confirmed)
+      if (blocked) return blocked
+      recordChanges("choice", `Pressed Space on ${describeTarget(target)}`, () => {
+        rememberChecked([element])
+        element.click()
+      })
+      effect = " and toggled it"
+    } else if (key === "Tab") {
+      const next = moveFocus(element, eventInit.shiftKey ?? false)
+      if (next) effect = ` and moved focus to ${next.getAttribute("aria-label") || next.tagName.toLowerCase()}`
+    }
+  }
+
+  element.dispatchEvent(new KeyboardEvent("keyup", eventInit))
+
+  return { success: true, message: `Pressed ${keyCombo}${effect}` }
+}
+
+// ============================================
+// ACCESSIBILITY SETTINGS - Page-wide preferences
+// ============================================
 
-  // Placeholder
-  if (inputEl.placeholder) info.placeholder = inputEl.placeholder
+const ACCESSIBILITY_STYLE_ID = "silver-surfer-accessibility-style"
 
-  // Current value (not for passwords)
-  if (inputEl.value && inputEl.type !== "password") {
-    info.value = truncateText(inputEl.value, 50)
+// Our own overlays keep their comic styling regardless of the page preferences
+const OWN_UI = "#silver-surfer-simplify-overlay, #silver-surfer-simplify-overlay *"
+
+const HIGH_CONTRAST_CSS = `
+  html[data-silver-surfer-high-contrast] body,
+  html[data-silver-surfer-high-contrast] body *:not(${OWN_UI}) {
+    background-color: #fff !important;
+    color: #000 !important;
+    border-color: #000 !important;
+    text-shadow: none !important;
   }
 
-  // Href for links
-  const href = el.getAttribute("href")
-  if (href && !href.startsWith("javascript:")) {
-    info.href = href.startsWith("/") ? href : truncateText(href, 80)
+  html[data-silver-surfer-high-contrast] body :is(a, a *):not(${OWN_UI}) {
+    color: #0000cc !important;
+    text-decoration: underline !important;
   }
 
-  // Src and alt for images
-  const img = element as HTMLImageElement
-  if (img.src) info.src = truncateText(img.src, 80)
-  if (img.alt) info.alt = truncateText(img.alt, 80)
+  html[data-silver-surfer-high-contrast] body :is(button, input, select, textarea, [role="button"]):not(${OWN_UI}) {
+    border: 2px solid #000 !important;
+  }
 
-  // Aria label
-  const ariaLabel = el.getAttribute("aria-label")
-  if (ariaLabel) info.ariaLabel = truncateText(ariaLabel)
+  html[data-silver-surfer-high-contrast] body :focus:not(${OWN_UI}) {
+    outline: 4px solid #fbbf24 !important;
+    outline-offset: 2px !important;
+  }
+`
 
-  // Options for select
-  if (element.tagName === "SELECT") {
-    info.options = Array.from(selectEl.options).map(o => o.textContent?.trim() || o.value).slice(0, 10)
-    if (selectEl.options.length > 10) {
-      info.options.push(`... and ${selectEl.options.length - 10} more`)
-    }
+// Raise small text to a readable floor instead of scaling everything, so large headings don't explode
+const TEXT_BOOST_CSS = `
+  html[data-silver-surfer-text-boost] {
+    font-size: 125% !important;
   }
 
-  return info
-}
+  html[data-silver-surfer-text-boost] body :is(p, li, td, th, dd, dt, label, a, span, blockquote, input, select, textarea, button):not(${OWN_UI}) {
+    font-size: max(1em, 18px) !important;
+    line-height: 1.6 !important;
+  }
+`
 
 /**
- * Distills the DOM into a structured, LLM-friendly JSON format
- * Elements are returned in document flow order as a flat list
+ * Applies the user's page-wide reading preferences (high contrast, larger text).
+ * Calling it again with new values replaces the previous styling.
  */
-export function distillDOM(): { success: boolean; message: string; data?: DistilledDOM } {
+export function applyAccessibilitySettings(settings: {
+  highContrast: boolean
+  largeTextBoost: boolean
+}): { success: boolean; message: string } {
+  const root = document.documentElement
+  root.toggleAttribute("data-silver-surfer-high-contrast", settings.highContrast)
+  root.toggleAttribute("data-silver-surfer-text-boost", settings.largeTextBoost)
+
+  let style = document.getElementById(ACCESSIBILITY_STYLE_ID)
+  if (!settings.highContrast && !settings.largeTextBoost) {
+    if (style) style.remove()
+    return { success: true, message: "Page reading preferences cleared" }
+  }
+
+  if (!style) {
+    style = document.createElement("style")
+    style.id = ACCESSIBILITY_STYLE_ID
+    // documentElement is always there, even when the script runs before <head> exists
+    root.appendChild(style)
+  }
+  style.textContent = HIGH_CONTRAST_CSS + TEXT_BOOST_CSS
+
+  return {
+    success: true,
+    message: `Applied reading preferences (high contrast: ${settings.highContrast}, large text: ${settings.largeTextBoost})`
+  }
+}
+
+// ============================================
+// SITE CLUTTER RULES - Things the user pointed at to hide or keep on this site
+// ============================================
+
+const SITE_RULES_STYLE_ID = "silver-surfer-site-rules-style"
+const REVEAL_STYLE_ID = "silver-surfer-reveal-style"
+
+// While set on <html>, rule-hidden elements show again so the user can pick one to bring back
+const REVEAL_ATTRIBUTE = "data-silver-surfer-revealing"
+
+let siteClutterRules: ClutterRule[] = []
+
+function isValidSelector(selector: string): boolean {
   try {
-    // Get meta description
-    const metaDesc = document.querySelector('meta[name="description"]') as HTMLMetaElement
-    
-    // Extract full text content from the body
-    const extractFullText = (): string => {
-      const body = document.body
-      if (!body) return ""
-      
-      // Clone the body to avoid modifying the actual DOM
-      const clone = body.cloneNode(true) as HTMLElement
-      
-      // Remove script, style, and other non-content elements
-      const removeSelectors = ["script", "style", "noscript", "svg", "iframe", "template"]
-      removeSelectors.forEach(sel => {
-        clone.querySelectorAll(sel).forEach(el => el.remove())
-      })
-      
-      // Get text content and clean it up
-      const text = clone.textContent || ""
-      return text
-        .replace(/\s+/g, " ")  // Collapse whitespace
-        .replace(/\n\s*\n/g, "\n")  // Remove empty lines
-        .trim()
-    }
-    
-    const distilled: DistilledDOM = {
-      url: window.location.href,
-      title: document.title,
-      metaDescription: metaDesc?.content || null,
-      fullText: extractFullText(),
-      timestamp: new Date().toISOString(),
-      viewport: {
-        width: window.innerWidth,
-        height: window.innerHeight
-      },
-      summary: {
-        totalElements: 0,
-        interactiveElements: 0,
-        headings: 0,
-        links: 0,
-        buttons: 0,
-        inputs: 0,
-        images: 0
-      },
-      elements: []
-    }
+    document.createDocumentFragment().querySelector(selector)
+    return true
+  } catch {
+    return false
+  }
+}
 
-    // Selector for all relevant elements we want to capture
-    const relevantSelector = [
-      "h1", "h2", "h3", "h4", "h5", "h6",
-      "p",
-      "a[href]",
-      "button", "[role='button']", "input[type='submit']", "input[type='button']",
-      "input:not([type='hidden'])", "textarea", "select",
-      "img[alt]", "img[src]",
-      "nav", "[role='navigation']",
-      "main", "article", "[role='main']",
-      "form",
-      "header", "footer", "aside",
-      "[role='banner']", "[role='search']", "[role='contentinfo']",
-      "label",
-      "ul", "ol",
-      "table"
-    ].join(", ")
-
-    // Query all relevant elements
-    const allElements = document.querySelectorAll(relevantSelector)
-    
-    // Create a map to track which elements we've seen (to avoid duplicates)
-    const seenElements = new Set<Element>()
-    
-    // Sort elements by document position (document flow order)
-    const sortedElements = Array.from(allElements).sort((a, b) => {
-      const position = a.compareDocumentPosition(b)
-      if (position & Node.DOCUMENT_POSITION_FOLLOWING) return -1
-      if (position & Node.DOCUMENT_POSITION_PRECEDING) return 1
-      return 0
-    })
+function isKeptBySite(element: Element): boolean {
+  return siteClutterRules.some((rule) => rule.action === "keep" && element.closest(rule.selector))
+}
 
-    let index = 0
-    for (const element of sortedElements) {
-      // Skip duplicates
-      if (seenElements.has(element)) continue
-      seenElements.add(element)
-
-      // Skip hidden elements
-      if (!isElementVisible(element)) continue
-
-      // Extract element info
-      const info = extractElementInfo(element, index)
-      distilled.elements.push(info)
-      index++
-
-      // Update summary counts
-      const tag = element.tagName.toLowerCase()
-      if (["h1", "h2", "h3", "h4", "h5", "h6"].includes(tag)) {
-        distilled.summary.headings++
-      } else if (tag === "a") {
-        distilled.summary.links++
-      } else if (tag === "button" || element.getAttribute("role") === "button" || 
-                 (tag === "input" && ["submit", "button"].includes((element as HTMLInputElement).type))) {
-        distilled.summary.buttons++
-      } else if (["input", "textarea", "select"].includes(tag)) {
-        distilled.summary.inputs++
-      } else if (tag === "img") {
-        distilled.summary.images++
-      }
+/**
+ * Hides everything the user asked us to hide on this site, via one stylesheet so elements the
+ * page adds later are hidden too. Calling it again replaces the previous rules.
+ */
+export function applySiteClutterRules(rules: ClutterRule[]): { success: boolean; message: string } {
+  siteClutterRules = rules.filter((rule) => isValidSelector(rule.selector))
+  const hideSelectors = siteClutterRules.filter((rule) => rule.action === "hide").map((rule) => rule.selector)
 
-      if (info.isInteractive) {
-        distilled.summary.interactiveElements++
-      }
-    }
+  let style = document.getElementById(SITE_RULES_STYLE_ID)
+  if (hideSelectors.length === 0) {
+    if (style) style.remove()
+    return { success: true, message: "No site rules to apply" }
+  }
+
+  if (!style) {
+    style = document.createElement("style")
+    style.id = SITE_RULES_STYLE_ID
+    document.documentElement.appendChild(style)
+  }
+  style.textContent = hideSelectors
+    .map((selector) => `html:not([${REVEAL_ATTRIBUTE}]) :is(${selector}) { display: none !important; }`)
+    .join("\n")
+
+  return { success: true, message: `Hid ${hideSelectors.length} things on this site` }
+}
+
+/**
+ * A few words describing an element, for the side panel's list of rules
+ */
+function describeForUser(element: HTMLElement): string {
+  const words = (
+    element.getAttribute("aria-label") ||
+    element.getAttribute("alt") ||
+    element.getAttribute("title") ||
+    element.innerText ||
+    ""
+  ).trim().replace(/\s+/g, " ")
+  if (words) return words.length > 50 ? `${words.substring(0, 50)}…` : words
+  if (element.querySelector("img, video, iframe")) return "A picture or video box"
+  return `A ${element.tagName.toLowerCase()} box`
+}
+
+// Ids and class names a framework makes up per build or render (":r1:", "ember1234", "css-1x2y3z",
+// "Header_title__3xYz1", "a8f3c2"); a rule built on them stops matching, or matches something else, next visit
+const GENERATED_NAME_PATTERN = /\d{3,}|:|^(css|sc|jsx|emotion|styled|svelte)-|__[A-Za-z0-9-]{4,}$|^(?=(.*\d){2})(?=.*[a-z])[a-z0-9]{5,}$/i
 
-    distilled.summary.totalElements = distilled.elements.length
+// Attributes sites set on purpose, and keep between visits
+const RULE_ATTRIBUTES = ["data-testid", "data-test", "data-qa", "aria-label", "role"]
 
-    return { 
-      success: true, 
-      message: `Distilled ${distilled.summary.totalElements} elements in document flow order`,
-      data: distilled 
+function looksGenerated(name: string): boolean {
+  return GENERATED_NAME_PATTERN.test(name)
+}
+
+/**
+ * Selectors for the element built only from its hand-written id, class names and attributes: never from its
+ * position on the page, which shifts as soon as the site adds or reorders anything
+ */
+function stableSelectorsFor(element: HTMLElement): string[] {
+  const tag = element.tagName.toLowerCase()
+  const selectors: string[] = []
+
+  if (element.id && !looksGenerated(element.id)) {
+    selectors.push(`#${CSS.escape(element.id)}`)
+  }
+
+  const classes = Array.from(element.classList).filter((name) => !looksGenerated(name)).slice(0, 3)
+  const classPart = classes.map((name) => `.${CSS.escape(name)}`).join("")
+  if (classPart) selectors.push(`${tag}${classPart}`)
+
+  for (const name of RULE_ATTRIBUTES) {
+    const value = element.getAttribute(name)
+    if (!value || looksGenerated(value)) continue
+    const attributePart = `[${name}="${CSS.escape(value)}"]`
+    selectors.push(`${tag}${attributePart}`)
+    if (classPart) selectors.push(`${tag}${classPart}${attributePart}`)
+  }
+
+  return selectors
+}
+
+/**
+ * Selector to keep in a site rule for the picked element: one that finds it and nothing else on the page.
+ * Null when the element has nothing sturdy to go by; picking the box around it usually works.
+ */
+function ruleSelectorFor(element: HTMLElement): string | null {
+  for (const selector of stableSelectorsFor(element)) {
+    try {
+      const matches = document.querySelectorAll(selector)
+      if (matches.length === 1 && matches[0] === element) return selector
+    } catch {
+      // Not a valid selector in this browser; try the next
     }
-  } catch (error) {
-    return { 
-      success: false, 
-      message: error instanceof Error ? error.message : "Failed to distill DOM" 
+  }
+  return null
+}
+
+export interface PickedClutter {
+  selector: string
+  label: string
+  hiddenBy?: "site-rule" | "clutter" // For "restore" picks: what was hiding it
+}
+
+/**
+ * Lets the user click the thing to hide ("hide"), or shows what's hidden and lets them click
+ * the thing to bring back ("restore"). Storing the rule is up to the caller.
+ */
+export async function pickClutterElement(
+  mode: "hide" | "restore"
+): Promise<{ success: boolean; message: string; picked?: PickedClutter }> {
+  if (mode === "hide") {
+    const element = await pickElement({
+      prompt: "Click the thing you want to hide. ↑ picks the bigger box around it.",
+      accept: (el) => (el === document.body || el === document.documentElement ? null : el)
+    })
+    if (!element) return { success: false, message: "Cancelled" }
+
+    const selector = ruleSelectorFor(element)
+    if (!selector) return { success: false, message: "Couldn't remember that part of the page; try the box around it" }
+    return { success: true, message: "Picked", picked: { selector, label: describeForUser(element) } }
+  }
+
+  const hideRules = siteClutterRules.filter((rule) => rule.action === "hide")
+  const clutterHidden = Array.from(document.querySelectorAll<HTMLElement>("[data-silver-surfer-hidden]"))
+  if (hideRules.length === 0 && clutterHidden.length === 0) {
+    return { success: false, message: "Nothing on this page is hidden" }
+  }
+
+  // Show the hidden things outlined; removeClutter hides with an inline style, so lift that for now
+  const savedDisplay = clutterHidden.map((element) => ({
+    element,
+    value: element.style.getPropertyValue("display"),
+    priority: element.style.getPropertyPriority("display")
+  }))
+  clutterHidden.forEach((element) => element.style.removeProperty("display"))
+
+  const outlined = [...hideRules.map((rule) => rule.selector), "[data-silver-surfer-hidden]"].join(", ")
+  const revealStyle = document.createElement("style")
+  revealStyle.id = REVEAL_STYLE_ID
+  revealStyle.textContent = `:is(${outlined}) { outline: 4px dashed #ef4444 !important; opacity: 0.7 !important; }`
+  document.documentElement.appendChild(revealStyle)
+  document.documentElement.setAttribute(REVEAL_ATTRIBUTE, "true")
+
+  let picked: PickedClutter | undefined
+  let chosen: HTMLElement | null = null
+  try {
+    const element = await pickElement({
+      prompt: "Click the outlined thing you want back.",
+      accept: (el) => {
+        const byRule = hideRules.find((rule) => el.closest(rule.selector))
+        return byRule
+          ? el.closest<HTMLElement>(byRule.selector)
+          : el.closest<HTMLElement>("[data-silver-surfer-hidden]")
+      }
+    })
+    if (element) {
+      const byRule = hideRules.find((rule) => element.matches(rule.selector))
+      if (byRule) {
+        picked = { selector: byRule.selector, label: byRule.label, hiddenBy: "site-rule" }
+      } else {
+        const selector = ruleSelectorFor(element)
+        if (selector) {
+          chosen = element
+          element.removeAttribute("data-silver-surfer-hidden")
+          picked = { selector, label: describeForUser(element), hiddenBy: "clutter" }
+        }
+      }
     }
+  } finally {
+    document.documentElement.removeAttribute(REVEAL_ATTRIBUTE)
+    revealStyle.remove()
+    savedDisplay
+      .filter(({ element }) => element !== chosen)
+      .forEach(({ element, value, priority }) => element.style.setProperty("display", value, priority))
   }
+
+  return picked
+    ? { success: true, message: "Picked", picked }
+    : { success: false, message: "Cancelled" }
 }
 
 // ============================================
@@ -954,7 +1500,7 @@ export function applySimplification(
       el.addEventListener("click", (e) => {
         const selector = (e.currentTarget as HTMLElement).getAttribute("data-ss-selector")
         if (selector) {
-          const originalEl = document.querySelector(selector) as HTMLElement
+          const originalEl = deepQuerySelector(selector) as HTMLElement
           if (originalEl) {
             // For links, navigate
             if (originalEl.tagName === "A") {
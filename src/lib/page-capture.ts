@@ -0,0 +1,161 @@
+// src/lib/page-capture.ts
+// Page-side half of full-page and element screenshots: scrolls the page frame by frame for the background
+// to capture and stitch, and measures a single element for cropping
+
+import { getElementRef, toViewportBounds } from "~lib/dom-distiller"
+import { pickElement } from "~lib/element-picker"
+import { resolveElement, type ElementTarget } from "~lib/page-actions"
+import type { ElementBounds } from "~types/conversation"
+
+// Very long pages are cut off here; beyond this the image is too big to be useful (or to upload)
+export const MAX_FULL_PAGE_HEIGHT_PX = 15000
+
+const CAPTURE_HIDDEN_ATTRIBUTE = "data-silver-surfer-capture-hidden"
+const CAPTURE_STYLE_ID = "silver-surfer-capture-style"
+
+// Time for lazy content and repaint after each scroll
+const SCROLL_SETTLE_MS = 150
+
+interface CaptureMetrics {
+  viewport: { width: number; height: number }
+  pageHeight: number // CSS pixels that will be captured, capped at MAX_FULL_PAGE_HEIGHT_PX
+  truncated: boolean
+}
+
+// Where the user was before the capture started, to put them back afterwards
+let savedScroll: { x: number; y: number; behavior: string } | null = null
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())))
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Hides fixed and sticky elements (headers, chat bubbles, cookie bars) so they don't repeat in every slice
+ */
+function hideFixedElements() {
+  if (!document.getElementById(CAPTURE_STYLE_ID)) {
+    const style = document.createElement("style")
+    style.id = CAPTURE_STYLE_ID
+    style.textContent = `[${CAPTURE_HIDDEN_ATTRIBUTE}] { visibility: hidden !important; }`
+    document.documentElement.appendChild(style)
+  }
+  document.body?.querySelectorAll("*").forEach((element) => {
+    const position = getComputedStyle(element).position
+    if (position === "fixed" || position === "sticky") {
+      element.setAttribute(CAPTURE_HIDDEN_ATTRIBUTE, "")
+    }
+  })
+}
+
+function showFixedElements() {
+  document.querySelectorAll(`[${CAPTURE_HIDDEN_ATTRIBUTE}]`).forEach((element) => {
+    element.removeAttribute(CAPTURE_HIDDEN_ATTRIBUTE)
+  })
+  document.getElementById(CAPTURE_STYLE_ID)?.remove()
+}
+
+// ============================================
+// FULL PAGE
+// ============================================
+
+/**
+ * Remembers the scroll position, turns off smooth scrolling and reports how tall the capture will be
+ */
+export function beginFullPageCapture(): { success: boolean; message: string; metrics: CaptureMetrics } {
+  const scroller = document.scrollingElement ?? document.documentElement
+  if (!savedScroll) {
+    savedScroll = {
+      x: window.scrollX,
+      y: window.scrollY,
+      behavior: document.documentElement.style.scrollBehavior
+    }
+  }
+  document.documentElement.style.scrollBehavior = "auto"
+
+  const fullHeight = Math.max(scroller.scrollHeight, window.innerHeight)
+  const metrics: CaptureMetrics = {
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    pageHeight: Math.min(fullHeight, MAX_FULL_PAGE_HEIGHT_PX),
+    truncated: fullHeight > MAX_FULL_PAGE_HEIGHT_PX
+  }
+  return { success: true, message: `Page is ${fullHeight}px tall`, metrics }
+}
+
+/**
+ * Scrolls to the next slice and waits for it to paint. Returns where the page actually ended up,
+ * which is less than asked for on the last slice.
+ */
+export async function scrollForCapture(y: number, hideFixed: boolean): Promise<{ success: boolean; message: string; scrollY: number }> {
+  window.scrollTo(0, y)
+  if (hideFixed) hideFixedElements()
+  await nextFrame()
+  await delay(SCROLL_SETTLE_MS)
+  return { success: true, message: `Scrolled to ${window.scrollY}`, scrollY: window.scrollY }
+}
+
+/**
+ * Puts back fixed elements and the user's scroll position
+ */
+export function endFullPageCapture(): { success: boolean; message: string } {
+  showFixedElements()
+  if (savedScroll) {
+    window.scrollTo(savedScroll.x, savedScroll.y)
+    document.documentElement.style.scrollBehavior = savedScroll.behavior
+    savedScroll = null
+  }
+  return { success: true, message: "Page restored" }
+}
+
+// ============================================
+// SINGLE ELEMENT
+// ============================================
+
+/**
+ * Brings the element on screen and reports its box, in top-level viewport CSS pixels
+ */
+export async function prepareElementCapture(target: ElementTarget): Promise<{
+  success: boolean
+  message: string
+  bounds?: ElementBounds
+  viewport: { width: number; height: number }
+}> {
+  const viewport = { width: window.innerWidth, height: window.innerHeight }
+  const element = resolveElement(target)
+  if (!element) {
+    return { success: false, message: "Element not found", viewport }
+  }
+
+  const rect = element.getBoundingClientRect()
+  if (rect.width === 0 || rect.height === 0) {
+    return { success: false, message: "Element is not visible", viewport }
+  }
+  const fullyVisible = rect.top >= 0 && rect.left >= 0 && rect.bottom <= window.innerHeight && rect.right <= window.innerWidth
+  if (!fullyVisible) {
+    // Tall elements start at their top edge; anything else is centred
+    element.scrollIntoView({ behavior: "instant", block: rect.height > window.innerHeight ? "start" : "center", inline: "nearest" })
+    await nextFrame()
+    await delay(SCROLL_SETTLE_MS)
+  }
+
+  return {
+    success: true,
+    message: "Element ready",
+    bounds: toViewportBounds(element.getBoundingClientRect(), element.ownerDocument),
+    viewport
+  }
+}
+
+/**
+ * Lets the user point at the part of the page they mean; returns a ref the capture can target
+ */
+export async function pickCaptureTarget(prompt: string): Promise<{ success: boolean; message: string; elementRef?: string }> {
+  const element = await pickElement({ prompt })
+  if (!element) {
+    return { success: false, message: "Cancelled" }
+  }
+  return { success: true, message: "Picked", elementRef: getElementRef(element) }
+}
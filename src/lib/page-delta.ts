@@ -0,0 +1,118 @@
+// src/lib/page-delta.ts
+// Remembers the last distilled snapshot per conversation session and reports what changed since then,
+// so follow-up observations in a multi-step task only ship the difference.
+
+import type { DOMElement, DistilledDOM, PageDelta } from "~types/conversation"
+
+interface Baseline {
+  url: string
+  timestamp: string
+  elements: Map<string, DOMElement> // Keyed by ref
+  textChunks: Set<string>
+}
+
+// Only a handful of sessions ever observe the same page; drop the oldest beyond this
+const MAX_SESSIONS = 5
+
+// Past this share of changed elements a full snapshot is clearer (and barely bigger) than a delta
+const MAX_CHANGED_RATIO = 0.5
+
+const MAX_TEXT_CHUNKS = 40
+
+const baselines = new Map<string, Baseline>()
+
+/**
+ * Splits page text into sentence-sized pieces for comparison
+ */
+function splitText(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(chunk => chunk.trim())
+    .filter(chunk => chunk.length > 1)
+}
+
+/**
+ * The parts of an element the agent cares about changing; index and bounds shift on every scroll
+ */
+function elementFingerprint(element: DOMElement): string {
+  const { index, bounds, inViewport, ...rest } = element
+  return JSON.stringify(rest)
+}
+
+function toBaseline(distilled: DistilledDOM): Baseline {
+  return {
+    url: distilled.url,
+    timestamp: distilled.timestamp,
+    elements: new Map(distilled.elements.map(element => [element.ref, element])),
+    textChunks: new Set(splitText(distilled.fullText))
+  }
+}
+
+/**
+ * Stores the snapshot as the session's new baseline
+ */
+export function rememberSnapshot(sessionId: string, distilled: DistilledDOM) {
+  baselines.delete(sessionId)
+  baselines.set(sessionId, toBaseline(distilled))
+  while (baselines.size > MAX_SESSIONS) {
+    const oldest = baselines.keys().next().value as string
+    baselines.delete(oldest)
+  }
+}
+
+/**
+ * Compares the snapshot against the session's previous one and stores it as the new baseline.
+ * candidateRefs lists every element on the page before the budget was applied, so elements that only fell
+ * out of the budget (after a scroll, say) are reported as omitted rather than removed.
+ * Returns null when there's nothing to compare against or the page changed too much for a delta to help.
+ */
+export function computePageDelta(sessionId: string, distilled: DistilledDOM, candidateRefs?: string[]): PageDelta | null {
+  const previous = baselines.get(sessionId)
+  rememberSnapshot(sessionId, distilled)
+
+  if (!previous || previous.url !== distilled.url) return null
+
+  const added: DOMElement[] = []
+  const changed: DOMElement[] = []
+  const seenRefs = new Set<string>()
+
+  for (const element of distilled.elements) {
+    seenRefs.add(element.ref)
+    const before = previous.elements.get(element.ref)
+    if (!before) {
+      added.push(element)
+    } else if (elementFingerprint(before) !== elementFingerprint(element)) {
+      changed.push(element)
+    }
+  }
+
+  const onPage = new Set(candidateRefs ?? seenRefs)
+  const missing = Array.from(previous.elements.keys()).filter(ref => !seenRefs.has(ref))
+  const removed = missing.filter(ref => !onPage.has(ref))
+  const omitted = missing.filter(ref => onPage.has(ref))
+
+  const changedCount = added.length + changed.length + removed.length
+  if (changedCount > Math.max(previous.elements.size, distilled.elements.length) * MAX_CHANGED_RATIO) {
+    return null
+  }
+
+  const currentChunks = splitText(distilled.fullText)
+  const currentSet = new Set(currentChunks)
+  const textAdded = currentChunks.filter(chunk => !previous.textChunks.has(chunk))
+  const textRemoved = Array.from(previous.textChunks).filter(chunk => !currentSet.has(chunk))
+
+  return {
+    url: distilled.url,
+    title: distilled.title,
+    since: previous.timestamp,
+    timestamp: distilled.timestamp,
+    added,
+    removed,
+    omitted,
+    changed,
+    textAdded: textAdded.slice(0, MAX_TEXT_CHUNKS),
+    textRemoved: textRemoved.slice(0, MAX_TEXT_CHUNKS),
+    unchangedElements: distilled.elements.length - added.length - changed.length,
+    truncated: distilled.summary.truncated
+  }
+}
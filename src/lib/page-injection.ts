@@ -0,0 +1,40 @@
+// src/lib/page-injection.ts
+// Delivers messages to the page runtime, injecting it on demand when the content script is missing
+
+import pageRuntimeUrl from "url:~lib/page-runtime-inject.ts"
+
+// executeScript wants a path relative to the extension root, not a chrome-extension:// URL
+const PAGE_RUNTIME_FILE = new URL(pageRuntimeUrl).pathname.replace(/^\//, "")
+
+function isMissingReceiverError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return message.includes("Receiving end does not exist") ||
+    message.includes("Could not establish connection")
+}
+
+/**
+ * Injects the page runtime bundle into a tab. Safe to call when it's already there.
+ */
+export async function injectPageRuntime(tabId: number): Promise<void> {
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    files: [PAGE_RUNTIME_FILE]
+  })
+}
+
+/**
+ * Sends a message to the page runtime in a tab.
+ * If the content script isn't loaded, injects the same runtime and sends the message again.
+ */
+export async function sendPageMessage<T = any>(tabId: number, message: { action: string; [key: string]: unknown }): Promise<T> {
+  try {
+    return await chrome.tabs.sendMessage(tabId, message)
+  } catch (error) {
+    if (!isMissingReceiverError(error)) {
+      throw error
+    }
+    console.log("Page runtime not loaded, injecting it for:", message.action)
+    await injectPageRuntime(tabId)
+    return await chrome.tabs.sendMessage(tabId, message)
+  }
+}
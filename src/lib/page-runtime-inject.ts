@@ -0,0 +1,7 @@
+// src/lib/page-runtime-inject.ts
+// Entry point injected with chrome.scripting.executeScript({ files }) into tabs where the
+// content script hasn't loaded yet (e.g. pages opened before the extension was installed)
+
+import { registerPageRuntime } from "~lib/page-runtime"
+
+registerPageRuntime()
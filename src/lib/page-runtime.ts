@@ -0,0 +1,363 @@
+// src/lib/page-runtime.ts
+// Message handlers that run inside web pages. The content script registers them on load,
+// and page-injection.ts ships this same module via chrome.scripting.executeScript({ files })
+// when the content script isn't there yet, so both paths behave identically.
+
+import {
+  highlightElement,
+  removeHighlights,
+  removeClutter,
+  restoreClutter,
+  magnifyText,
+  resetMagnification,
+  scrollToView,
+  clickElement,
+  fillFormField,
+  selectDropdown,
+  toggleCheckbox,
+  chooseRadio,
+  setDate,
+  chooseOption,
+  pressKey,
+  applySimplification,
+  removeSimplification,
+  applyAccessibilitySettings,
+  applySafetyPolicy,
+  applySiteClutterRules,
+  pickClutterElement,
+  type ElementTarget
+} from "~lib/page-actions"
+import { distillDOM } from "~lib/dom-distiller"
+import { snapshotAccessibilityTree } from "~lib/accessibility-snapshot"
+import { computePageDelta, rememberSnapshot } from "~lib/page-delta"
+import {
+  beginFullPageCapture,
+  endFullPageCapture,
+  pickCaptureTarget,
+  prepareElementCapture,
+  scrollForCapture
+} from "~lib/page-capture"
+import { createRedactor, findPiiRegions, redactAccessibilitySnapshot, redactDistilledDOM } from "~lib/pii-redaction"
+import { waitFor } from "~lib/page-waits"
+import { undoAll, undoLast } from "~lib/undo-journal"
+import { cancelElementPicker } from "~lib/element-picker"
+import { getRuleOrigin, subscribeToClutterRules } from "~lib/clutter-rules"
+import {
+  handleConsentBanners,
+  watchForConsentBanners,
+  type ConsentHandledMessage,
+  type ConsentResult
+} from "~lib/consent-handler"
+import { watchForScams, type ScamWarningMessage } from "~lib/scam-detector"
+import { subscribeToSettings } from "~lib/settings"
+import { subscribeToSafetyPolicy } from "~lib/safety-policy"
+
+declare global {
+  interface Window {
+    __silverSurferPageRuntime?: boolean
+  }
+}
+
+// Reply for an action that threw after its listener already promised an answer; without it the caller waits forever
+function failedAction(error: unknown): { success: false; message: string } {
+  return { success: false, message: error instanceof Error ? error.message : "The action failed on the page" }
+}
+
+function getTarget(request: ElementTarget): ElementTarget {
+  return { selector: request.selector, elementRef: request.elementRef, scope: request.scope }
+}
+
+/**
+ * Registers the page message handlers once per frame.
+ * Content scripts and injected files share the extension's isolated world, so the flag
+ * stops a late-loading content script from handling every message a second time.
+ */
+export function registerPageRuntime(): boolean {
+  if (window.__silverSurferPageRuntime) {
+    return false
+  }
+  window.__silverSurferPageRuntime = true
+
+  // Keep the page in sync with the reading preferences from the Settings tab
+  let watchingForConsent = false
+  let watchingForScams = false
+  subscribeToSettings((settings) => {
+    applyAccessibilitySettings(settings)
+
+    // Turn down the cookie banner of a freshly opened page and tell the side panel what we pressed
+    if (settings.autoHandleConsent && !watchingForConsent) {
+      watchingForConsent = true
+      watchForConsentBanners((result) => {
+        const message: ConsentHandledMessage = { action: "CONSENT_HANDLED", result, url: window.location.href }
+        chrome.runtime.sendMessage(message).catch(() => {
+          // Side panel closed; nobody to tell
+        })
+      })
+    }
+
+    // Warn about scam pages on arrival; the overlay works even when the side panel is closed
+    if (settings.scamWarnings && !watchingForScams) {
+      watchingForScams = true
+      watchForScams((report, warningShown) => {
+        const message: ScamWarningMessage = { action: "SCAM_WARNING", report, warningShown, url: window.location.href }
+        chrome.runtime.sendMessage(message).catch(() => {
+          // Side panel closed; the page overlay already warned them
+        })
+      })
+    }
+  })
+
+  // Every click and fill is checked against the user's safety policy. When the runtime was just injected for an
+  // action, that action waits for the stored policy instead of running against the defaults.
+  let markPolicyLoaded = () => {}
+  const policyLoaded = new Promise<void>((resolve) => {
+    markPolicyLoaded = resolve
+  })
+  subscribeToSafetyPolicy((policy) => {
+    applySafetyPolicy(policy)
+    markPolicyLoaded()
+  })
+
+  // Hide what the user asked us to hide on this site, on every visit
+  const origin = getRuleOrigin(window.location.href)
+  if (origin) {
+    subscribeToClutterRules(origin, applySiteClutterRules)
+  }
+
+  // Personal details are swapped for placeholders before any page content leaves the browser;
+  // one redactor per page keeps the same detail under the same placeholder across captures
+  const redactor = createRedactor()
+
+  // Listen for messages from background script or sidepanel
+  chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+    // Page action handlers
+    if (request.action === "HIGHLIGHT_ELEMENT") {
+      const result = highlightElement(getTarget(request))
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "REMOVE_HIGHLIGHTS") {
+      const result = removeHighlights()
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "REMOVE_CLUTTER") {
+      // Say no to the cookie banner first, so hiding it doesn't leave the page scroll-locked.
+      // If that goes wrong, the clutter is still removed.
+      handleConsentBanners()
+        .catch((error): ConsentResult => ({
+          success: false,
+          message: error instanceof Error ? error.message : "Couldn't deal with the cookie banner",
+          handled: false
+        }))
+        .then((consent) => {
+          const result = removeClutter()
+          sendResponse({
+            ...result,
+            message: consent.handled ? `${consent.message}. ${result.message}` : result.message,
+            consent
+          })
+        })
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "RESTORE_CLUTTER") {
+      const result = restoreClutter()
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "MAGNIFY_TEXT") {
+      const result = magnifyText(getTarget(request), request.scaleFactor)
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "RESET_MAGNIFICATION") {
+      const result = resetMagnification()
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "SCROLL_TO_VIEW") {
+      const result = scrollToView(getTarget(request))
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "CLICK_ELEMENT") {
+      policyLoaded
+        .then(() => sendResponse(clickElement(getTarget(request), request.confirmed)))
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "FILL_FORM_FIELD") {
+      policyLoaded
+        .then(() => sendResponse(fillFormField(getTarget(request), request.value, request.confirmed)))
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "SELECT_DROPDOWN") {
+      policyLoaded
+        .then(() => sendResponse(selectDropdown(getTarget(request), request.value, request.confirmed)))
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "TOGGLE_CHECKBOX") {
+      policyLoaded
+        .then(() => toggleCheckbox(getTarget(request), request.checked, request.confirmed))
+        .then(sendResponse)
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "CHOOSE_RADIO") {
+      policyLoaded
+        .then(() => chooseRadio(getTarget(request), request.value, request.confirmed))
+        .then(sendResponse)
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "SET_DATE") {
+      policyLoaded
+        .then(() => sendResponse(setDate(getTarget(request), request.value, request.confirmed)))
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "CHOOSE_OPTION") {
+      // Custom listboxes render their options asynchronously after opening
+      policyLoaded
+        .then(() => chooseOption(getTarget(request), request.value, request.confirmed))
+        .then(sendResponse)
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "WAIT_FOR") {
+      waitFor({
+        condition: request.condition,
+        target: getTarget(request),
+        text: request.text,
+        timeoutMs: request.timeoutMs,
+        quietMs: request.quietMs,
+        fromUrl: request.fromUrl
+      }).then(sendResponse)
+      return true
+    }
+
+    if (request.action === "PRESS_KEY") {
+      policyLoaded
+        .then(() => sendResponse(pressKey(getTarget(request), request.key, request.confirmed)))
+        .catch((error) => sendResponse(failedAction(error)))
+      return true
+    }
+
+    if (request.action === "PICK_CLUTTER") {
+      // Resolves once the user clicks something on the page (or cancels)
+      pickClutterElement(request.mode).then(sendResponse)
+      return true
+    }
+
+    if (request.action === "CANCEL_PICKER") {
+      sendResponse({ success: cancelElementPicker(), message: "Picker closed" })
+      return true
+    }
+
+    // Undo journal: every highlight, hidden element and filled field can be put back
+    if (request.action === "UNDO_LAST") {
+      const result = undoLast()
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "UNDO_ALL") {
+      const result = undoAll()
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "DISTILL_DOM") {
+      const { candidateRefs, ...distilled } = distillDOM(request.budget)
+      const result = distilled.data ? { ...distilled, data: redactDistilledDOM(distilled.data, redactor) } : distilled
+      // With a session, keep this snapshot as its baseline and, if asked, report only what changed
+      if (result.success && result.data && request.sessionId) {
+        if (request.delta) {
+          const delta = computePageDelta(request.sessionId, result.data, candidateRefs)
+          if (delta) {
+            sendResponse({ success: true, message: result.message, delta })
+            return true
+          }
+        } else {
+          rememberSnapshot(request.sessionId, result.data)
+        }
+      }
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "SNAPSHOT_ACCESSIBILITY") {
+      const snapshot = snapshotAccessibilityTree()
+      const result = snapshot.data ? { ...snapshot, data: redactAccessibilitySnapshot(snapshot.data, redactor) } : snapshot
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "FIND_PII_REGIONS") {
+      sendResponse(findPiiRegions())
+      return true
+    }
+
+    // Full-page and element screenshots: the background captures, the page scrolls and measures
+    if (request.action === "BEGIN_FULL_PAGE_CAPTURE") {
+      sendResponse(beginFullPageCapture())
+      return true
+    }
+
+    if (request.action === "SCROLL_FOR_CAPTURE") {
+      scrollForCapture(request.y, request.hideFixed).then(sendResponse)
+      return true
+    }
+
+    if (request.action === "END_FULL_PAGE_CAPTURE") {
+      sendResponse(endFullPageCapture())
+      return true
+    }
+
+    if (request.action === "PREPARE_ELEMENT_CAPTURE") {
+      prepareElementCapture(getTarget(request)).then(sendResponse)
+      return true
+    }
+
+    if (request.action === "PICK_CAPTURE_TARGET") {
+      // Resolves once the user clicks the part of the page they mean (or cancels)
+      pickCaptureTarget(request.prompt).then(sendResponse)
+      return true
+    }
+
+    // Page Simplification handlers
+    if (request.action === "APPLY_SIMPLIFICATION") {
+      // New overlay-based simplification expects content object with title, sections, message
+      const result = applySimplification(request.content)
+      sendResponse(result)
+      return true
+    }
+
+    if (request.action === "REMOVE_SIMPLIFICATION") {
+      const result = removeSimplification()
+      sendResponse(result)
+      return true
+    }
+
+    return true
+  })
+
+  return true
+}
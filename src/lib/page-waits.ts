@@ -0,0 +1,160 @@
+// src/lib/page-waits.ts
+// Waits for something to happen on the page (an element, some text, a URL change, the DOM going quiet)
+// instead of sleeping for a fixed time
+
+import { resolveElement, type ElementTarget } from "~lib/page-actions"
+import { isElementVisible } from "~lib/dom-distiller"
+import { collectRoots } from "~lib/dom-roots"
+import type { WaitCondition } from "~types/conversation"
+
+export const DEFAULT_WAIT_TIMEOUT_MS = 10000
+const MAX_WAIT_TIMEOUT_MS = 30000
+const DEFAULT_QUIET_MS = 500
+
+// Mutations inside shadow roots and frames aren't observed, so checks also run on this interval
+const POLL_INTERVAL_MS = 250
+// A burst of mutations (an animation, a stream of rows) triggers one check per this long, not one per change
+const MUTATION_CHECK_THROTTLE_MS = 100
+
+export interface WaitForOptions {
+  condition: WaitCondition
+  target?: ElementTarget
+  text?: string
+  timeoutMs?: number
+  quietMs?: number // dom_idle: how long the page must stay unchanged
+  fromUrl?: string // url_changes: the URL to move away from (defaults to the current one)
+}
+
+/**
+ * Resolves true as soon as check() passes, re-checking after DOM mutations (throttled) and on a short interval.
+ * Resolves false when the timeout runs out.
+ */
+function waitUntil(check: () => boolean, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (check()) {
+      resolve(true)
+      return
+    }
+
+    const finish = (result: boolean) => {
+      observer.disconnect()
+      clearInterval(poll)
+      clearTimeout(throttle)
+      clearTimeout(timer)
+      resolve(result)
+    }
+    const recheck = () => {
+      if (check()) finish(true)
+    }
+
+    let throttle: ReturnType<typeof setTimeout> | undefined
+    const observer = new MutationObserver(() => {
+      if (throttle !== undefined) return
+      throttle = setTimeout(() => {
+        throttle = undefined
+        recheck()
+      }, MUTATION_CHECK_THROTTLE_MS)
+    })
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true })
+    const poll = setInterval(recheck, POLL_INTERVAL_MS)
+    const timer = setTimeout(() => finish(false), timeoutMs)
+  })
+}
+
+/**
+ * Resolves true once the DOM has gone quietMs without elements being added or removed (an approximation of
+ * "network idle": pages that are still loading data keep inserting content). Attribute and text changes
+ * don't count, or carousels, tickers and hover styles would keep the page from ever settling.
+ */
+function waitForQuiet(quietMs: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const finish = (result: boolean) => {
+      observer.disconnect()
+      clearTimeout(quietTimer)
+      clearTimeout(timer)
+      resolve(result)
+    }
+
+    let quietTimer = setTimeout(() => finish(true), quietMs)
+    const observer = new MutationObserver(() => {
+      clearTimeout(quietTimer)
+      quietTimer = setTimeout(() => finish(true), quietMs)
+    })
+    observer.observe(document.documentElement, { childList: true, subtree: true })
+    const timer = setTimeout(() => finish(false), timeoutMs)
+  })
+}
+
+/**
+ * True if the text appears anywhere on the page, including frames and shadow roots
+ */
+function pageContainsText(text: string): boolean {
+  const wanted = text.trim().toLowerCase()
+  return collectRoots().some(({ root }) => {
+    const source = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root
+    return (source?.textContent || "").replace(/\s+/g, " ").toLowerCase().includes(wanted)
+  })
+}
+
+function isTargetShowing(target: ElementTarget): boolean {
+  const element = resolveElement(target)
+  return Boolean(element && isElementVisible(element))
+}
+
+/**
+ * Waits for the condition and reports how it went
+ */
+export async function waitFor(options: WaitForOptions): Promise<{ success: boolean; message: string }> {
+  const timeoutMs = Math.min(Math.max(options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS, 0), MAX_WAIT_TIMEOUT_MS)
+  const started = Date.now()
+  const elapsed = () => `${((Date.now() - started) / 1000).toFixed(1)}s`
+  const target = options.target ?? {}
+  const targetName = target.elementRef || target.selector || ""
+
+  switch (options.condition) {
+    case "element_appears": {
+      if (!targetName) return { success: false, message: "element_appears needs an element_ref or selector" }
+      const met = await waitUntil(() => isTargetShowing(target), timeoutMs)
+      return met
+        ? { success: true, message: `${targetName} appeared after ${elapsed()}` }
+        : { success: false, message: `Timed out after ${elapsed()} waiting for ${targetName} to appear` }
+    }
+
+    case "element_disappears": {
+      if (!targetName) return { success: false, message: "element_disappears needs an element_ref or selector" }
+      const met = await waitUntil(() => !isTargetShowing(target), timeoutMs)
+      return met
+        ? { success: true, message: `${targetName} is gone after ${elapsed()}` }
+        : { success: false, message: `Timed out after ${elapsed()}; ${targetName} is still showing` }
+    }
+
+    case "text_present": {
+      if (!options.text) return { success: false, message: "text_present needs the text to look for" }
+      const text = options.text
+      const met = await waitUntil(() => pageContainsText(text), timeoutMs)
+      return met
+        ? { success: true, message: `"${text}" appeared after ${elapsed()}` }
+        : { success: false, message: `Timed out after ${elapsed()} waiting for "${text}"` }
+    }
+
+    case "url_changes": {
+      // Single-page apps change the URL without reloading; a full navigation ends this script instead
+      const fromUrl = options.fromUrl ?? window.location.href
+      const met = await waitUntil(() => window.location.href !== fromUrl, timeoutMs)
+      return met
+        ? { success: true, message: `Page changed to ${window.location.href}` }
+        : { success: false, message: `Timed out after ${elapsed()}; still on ${fromUrl}` }
+    }
+
+    case "dom_idle": {
+      const quietMs = options.quietMs ?? DEFAULT_QUIET_MS
+      const met = await waitForQuiet(quietMs, timeoutMs)
+      return met
+        ? { success: true, message: `Page settled after ${elapsed()}` }
+        : { success: false, message: `Page was still changing after ${elapsed()}` }
+    }
+
+    default:
+      return { success: false, message: `Unknown wait condition: ${options.condition}` }
+  }
+}
@@ -0,0 +1,319 @@
+// src/lib/pii-redaction.ts
+// Finds personal details (card and account numbers, SSNs/SINs, emails, phone numbers, street addresses) in what
+// we capture from the page and swaps them for typed placeholders, so none of it leaves the browser
+
+import { collectRoots, deepQuerySelector, getFrameDocument } from "~lib/dom-roots"
+import { ELEMENT_REF_ATTRIBUTE, isElementVisible, toViewportBounds } from "~lib/dom-distiller"
+import type { AccessibilitySnapshot, DistilledDOM, DOMElement, ElementBounds } from "~types/conversation"
+
+export type PiiKind = "card" | "account" | "ssn" | "sin" | "email" | "phone" | "address"
+
+const PLACEHOLDER_LABELS: Record<PiiKind, string> = {
+  card: "CARD_NUMBER",
+  account: "ACCOUNT_NUMBER",
+  ssn: "SSN",
+  sin: "SIN",
+  email: "EMAIL",
+  phone: "PHONE",
+  address: "ADDRESS"
+}
+
+interface PiiPattern {
+  kind: PiiKind
+  regex: RegExp
+  validate?: (match: string) => boolean
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "")
+}
+
+// Card numbers and Canadian SINs carry a Luhn check digit, which keeps order numbers and the like out
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Order matters: specific formats first, so a card number isn't half-eaten as a phone number
+const PII_PATTERNS: PiiPattern[] = [
+  { kind: "email", regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    kind: "card",
+    regex: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => passesLuhn(digitsOf(match))
+  },
+  { kind: "ssn", regex: /\b\d{3}-\d{2}-\d{4}\b/g },
+  {
+    kind: "sin",
+    regex: /\b\d{3}[ -]\d{3}[ -]\d{3}\b/g,
+    validate: (match) => passesLuhn(digitsOf(match))
+  },
+  // IBAN
+  { kind: "account", regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g },
+  // North American numbers need separators, so bare digit runs fall through to account numbers
+  { kind: "phone", regex: /(?<![\w-])(?:\+?1[ .-]?)?\(?[2-9]\d{2}\)?[ .-]?\d{3}[ .-]\d{4}(?![\w-])/g },
+  { kind: "phone", regex: /(?<![\w+])\+\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}(?!\w)/g },
+  { kind: "account", regex: /\b\d{8,17}\b/g },
+  {
+    kind: "address",
+    regex: /\b\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){0,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Crescent|Cres|Highway|Hwy|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?/gi
+  },
+  // Canadian and UK postcodes, and US ZIP codes after a state
+  { kind: "address", regex: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d\b/g },
+  { kind: "address", regex: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[ABD-HJLNP-UW-Z]{2}\b/g },
+  { kind: "address", regex: /\b[A-Z]{2} \d{5}(?:-\d{4})?\b/g }
+]
+
+// Fields whose whole value is personal, whatever it looks like
+const SENSITIVE_AUTOCOMPLETE: [RegExp, PiiKind][] = [
+  [/^cc-(number|csc|exp)/, "card"],
+  [/^email/, "email"],
+  [/^tel/, "phone"],
+  [/^(street-address|address-line|postal-code)/, "address"]
+]
+const SENSITIVE_FIELD_HINTS: [RegExp, PiiKind][] = [
+  [/card.?(number|no)|cc.?num|cvv|cvc|security.?code/i, "card"],
+  [/ssn|social.?security/i, "ssn"],
+  [/\bsin\b|social.?insurance/i, "sin"],
+  [/account.?(number|no)|acct|routing|iban|sort.?code|transit/i, "account"]
+]
+
+// ============================================
+// TEXT REDACTION
+// ============================================
+
+export interface Redactor {
+  redact: (text: string) => string
+  placeholderFor: (kind: PiiKind, value: string) => string
+}
+
+/**
+ * A redactor hands the same placeholder to the same value every time ([EMAIL_1] stays [EMAIL_1]),
+ * so the assistant can still tell details apart and page deltas don't change for no reason
+ */
+export function createRedactor(): Redactor {
+  const placeholders = new Map<string, string>()
+  const counts: Partial<Record<PiiKind, number>> = {}
+
+  const placeholderFor = (kind: PiiKind, value: string) => {
+    const key = `${kind}:${value}`
+    let placeholder = placeholders.get(key)
+    if (!placeholder) {
+      counts[kind] = (counts[kind] ?? 0) + 1
+      placeholder = `[${PLACEHOLDER_LABELS[kind]}_${counts[kind]}]`
+      placeholders.set(key, placeholder)
+    }
+    return placeholder
+  }
+
+  const redact = (text: string) => {
+    let result = text
+    for (const { kind, regex, validate } of PII_PATTERNS) {
+      result = result.replace(regex, (match) =>
+        validate && !validate(match) ? match : placeholderFor(kind, match)
+      )
+    }
+    return result
+  }
+
+  return { redact, placeholderFor }
+}
+
+/**
+ * True if the text contains anything the redactor would replace
+ */
+export function containsPii(text: string): boolean {
+  return PII_PATTERNS.some(({ regex, validate }) =>
+    Array.from(text.matchAll(regex)).some(([match]) => !validate || validate(match))
+  )
+}
+
+/**
+ * What kind of personal detail a form field holds, judging by its type, autocomplete hint, name and label
+ */
+export function sensitiveFieldKind(element: Element): PiiKind | null {
+  const type = element.getAttribute("type")?.toLowerCase()
+  if (type === "email") return "email"
+  if (type === "tel") return "phone"
+
+  const autocomplete = element.getAttribute("autocomplete")?.toLowerCase().split(/\s+/).pop() ?? ""
+  for (const [pattern, kind] of SENSITIVE_AUTOCOMPLETE) {
+    if (pattern.test(autocomplete)) return kind
+  }
+
+  const hints = ["name", "id", "aria-label", "placeholder", "data-testid"]
+    .map((attribute) => element.getAttribute(attribute) ?? "")
+    .join(" ")
+  for (const [pattern, kind] of SENSITIVE_FIELD_HINTS) {
+    if (pattern.test(hints)) return kind
+  }
+  return null
+}
+
+function redactElement(element: DOMElement, redactor: Redactor): DOMElement {
+  const redacted: DOMElement = { ...element }
+  for (const key of ["text", "placeholder", "ariaLabel", "alt", "href"] as const) {
+    const value = redacted[key]
+    if (value) redacted[key] = redactor.redact(value)
+  }
+  if (redacted.options) {
+    redacted.options = redacted.options.map(redactor.redact)
+  }
+
+  if (redacted.value) {
+    const live = deepQuerySelector(`[${ELEMENT_REF_ATTRIBUTE}="${element.ref}"]`, element.scope)
+    const kind = live ? sensitiveFieldKind(live) : null
+    redacted.value = kind ? redactor.placeholderFor(kind, redacted.value) : redactor.redact(redacted.value)
+  }
+  return redacted
+}
+
+/**
+ * Copy of the distilled page with every personal detail replaced by a placeholder
+ */
+export function redactDistilledDOM(distilled: DistilledDOM, redactor: Redactor): DistilledDOM {
+  return {
+    ...distilled,
+    url: redactor.redact(distilled.url),
+    title: redactor.redact(distilled.title),
+    metaDescription: distilled.metaDescription ? redactor.redact(distilled.metaDescription) : null,
+    fullText: redactor.redact(distilled.fullText),
+    elements: distilled.elements.map((element) => redactElement(element, redactor))
+  }
+}
+
+/**
+ * Copy of the accessibility snapshot with names and values redacted
+ */
+export function redactAccessibilitySnapshot(snapshot: AccessibilitySnapshot, redactor: Redactor): AccessibilitySnapshot {
+  return {
+    ...snapshot,
+    url: redactor.redact(snapshot.url),
+    nodes: snapshot.nodes.map((node) => ({
+      ...node,
+      name: redactor.redact(node.name),
+      states: node.states?.value ? { ...node.states, value: redactor.redact(node.states.value) } : node.states
+    }))
+  }
+}
+
+// ============================================
+// SCREENSHOT REGIONS
+// ============================================
+
+const MAX_REGIONS = 500
+const SKIPPED_TEXT_PARENTS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE"])
+
+function isOnScreen(bounds: ElementBounds): boolean {
+  return bounds.width > 0 && bounds.height > 0 &&
+    bounds.x < window.innerWidth && bounds.y < window.innerHeight &&
+    bounds.x + bounds.width > 0 && bounds.y + bounds.height > 0
+}
+
+function textRegions(root: Document | ShadowRoot, regions: ElementBounds[]) {
+  const start = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root
+  if (!start) return
+  const doc = root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : root.ownerDocument
+  const walker = doc.createTreeWalker(start, NodeFilter.SHOW_TEXT)
+
+  for (let node = walker.nextNode(); node && regions.length < MAX_REGIONS; node = walker.nextNode()) {
+    const text = node.textContent ?? ""
+    const parent = node.parentElement
+    if (text.trim().length < 5 || !parent || SKIPPED_TEXT_PARENTS.has(parent.tagName)) continue
+
+    for (const { regex, validate } of PII_PATTERNS) {
+      for (const match of text.matchAll(regex)) {
+        if (validate && !validate(match[0])) continue
+        const range = doc.createRange()
+        range.setStart(node, match.index ?? 0)
+        range.setEnd(node, (match.index ?? 0) + match[0].length)
+        for (const rect of Array.from(range.getClientRects())) {
+          const bounds = toViewportBounds(rect, doc)
+          if (isOnScreen(bounds)) regions.push(bounds)
+        }
+      }
+    }
+  }
+}
+
+function fieldRegions(root: Document | ShadowRoot, regions: ElementBounds[]) {
+  root.querySelectorAll("input, textarea, select").forEach((element) => {
+    if (regions.length >= MAX_REGIONS) return
+    const field = element as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    if (!field.value || (field as HTMLInputElement).type === "password" || !isElementVisible(field)) return
+    if (sensitiveFieldKind(field) || containsPii(field.value)) {
+      const bounds = toViewportBounds(field.getBoundingClientRect(), field.ownerDocument)
+      if (isOnScreen(bounds)) regions.push(bounds)
+    }
+  })
+}
+
+// Password and card fields, filled in or not, for screenshots that mask them whole
+function sensitiveFieldRegions(root: Document | ShadowRoot, fields: ElementBounds[]) {
+  root.querySelectorAll("input").forEach((input) => {
+    if (fields.length >= MAX_REGIONS) return
+    if (input.type !== "password" && sensitiveFieldKind(input) !== "card") return
+    if (!isElementVisible(input)) return
+    const bounds = toViewportBounds(input.getBoundingClientRect(), input.ownerDocument)
+    if (isOnScreen(bounds)) fields.push(bounds)
+  })
+}
+
+// Frames we can't read into (card fields from Stripe, Braintree, Adyen and the like) are masked whole,
+// since whatever they show never passes through the checks above
+function crossOriginFrameRegions(root: Document | ShadowRoot, regions: ElementBounds[]) {
+  root.querySelectorAll("iframe, frame").forEach((frame) => {
+    if (getFrameDocument(frame) || !isElementVisible(frame)) return
+    const bounds = toViewportBounds(frame.getBoundingClientRect(), frame.ownerDocument)
+    if (isOnScreen(bounds)) regions.push(bounds)
+  })
+}
+
+export interface PiiRegionsResult {
+  success: boolean
+  message: string
+  regions: ElementBounds[] // Personal details currently showing
+  sensitiveFields: ElementBounds[] // Password and card fields
+  viewport: { width: number; height: number }
+}
+
+/**
+ * Where personal details and sensitive fields are on screen right now, in top-level viewport CSS pixels,
+ * so the screenshot can be blacked out in those places
+ */
+export function findPiiRegions(): PiiRegionsResult {
+  const regions: ElementBounds[] = []
+  const sensitiveFields: ElementBounds[] = []
+  const viewport = { width: window.innerWidth, height: window.innerHeight }
+  try {
+    for (const { root } of collectRoots()) {
+      crossOriginFrameRegions(root, regions)
+      textRegions(root, regions)
+      fieldRegions(root, regions)
+      sensitiveFieldRegions(root, sensitiveFields)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "Failed to scan the page",
+      regions,
+      sensitiveFields,
+      viewport
+    }
+  }
+  return {
+    success: true,
+    message: `Found ${regions.length} personal detail area(s) and ${sensitiveFields.length} sensitive field(s) on screen`,
+    regions,
+    sensitiveFields,
+    viewport
+  }
+}
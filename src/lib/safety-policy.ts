@@ -0,0 +1,333 @@
+// src/lib/safety-policy.ts
+// Decides whether the assistant may click a control or fill a field: allow, block, or ask the user first.
+// The page runtime enforces it for every action; the Settings tab edits the user's choices.
+
+import { hostMatches } from "~lib/tab-navigation"
+
+export const SAFETY_POLICY_STORAGE_KEY = "safety_policy"
+
+export type PolicyOutcome = "allow" | "confirm" | "block"
+
+// Clicks covers anything that activates a control (click, Enter/Space, ticking, choosing); fills covers typing
+export type PolicyActionKind = "click" | "fill"
+
+export type PolicyLanguage = "en" | "fr" | "es" | "de" | "it" | "pt" | "nl"
+
+export const POLICY_LANGUAGES: { id: PolicyLanguage; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "fr", label: "Français" },
+  { id: "es", label: "Español" },
+  { id: "de", label: "Deutsch" },
+  { id: "it", label: "Italiano" },
+  { id: "pt", label: "Português" },
+  { id: "nl", label: "Nederlands" }
+]
+
+type KeywordPack = Record<PolicyLanguage, string[]>
+
+type KeywordPackId =
+  | "payment"
+  | "accountDeletion"
+  | "deletion"
+  | "signOut"
+  | "subscription"
+  | "confirmation"
+  | "sensitiveField"
+
+// ============================================
+// KEYWORD PACKS - Whole words/phrases, matched case- and accent-insensitively
+// ============================================
+
+// Phrases rather than single words where the word alone is harmless ("Order by price", "Remove filter")
+const KEYWORD_PACKS: Record<KeywordPackId, KeywordPack> = {
+  payment: {
+    en: ["pay", "pay now", "buy", "buy now", "purchase", "checkout", "check out", "place order", "place your order",
+         "submit order", "complete order", "confirm order", "complete purchase", "confirm purchase",
+         "confirm payment", "make payment", "send money", "transfer money", "donate"],
+    fr: ["payer", "payer maintenant", "acheter", "commander", "passer la commande", "valider la commande",
+         "valider le paiement", "confirmer le paiement", "finaliser l'achat", "envoyer de l'argent", "faire un don"],
+    es: ["pagar", "pagar ahora", "comprar", "realizar pedido", "tramitar pedido", "finalizar compra",
+         "confirmar pago", "enviar dinero", "donar"],
+    de: ["bezahlen", "jetzt bezahlen", "kaufen", "jetzt kaufen", "zahlungspflichtig bestellen",
+         "bestellung abschicken", "zur kasse", "geld senden", "spenden"],
+    it: ["paga", "paga ora", "acquista", "compra", "conferma ordine", "procedi all'acquisto", "invia denaro", "dona"],
+    pt: ["pagar", "comprar", "finalizar compra", "confirmar pagamento", "enviar dinheiro", "doar"],
+    nl: ["betalen", "nu betalen", "kopen", "bestellen", "afrekenen", "geld overmaken", "doneren"]
+  },
+  accountDeletion: {
+    en: ["delete account", "delete my account", "close account", "close my account", "deactivate", "deactivate account"],
+    fr: ["supprimer le compte", "supprimer mon compte", "fermer le compte", "fermer mon compte", "desactiver"],
+    es: ["eliminar cuenta", "eliminar mi cuenta", "borrar cuenta", "cerrar cuenta", "desactivar"],
+    de: ["konto loschen", "konto schliessen", "konto schließen", "deaktivieren"],
+    it: ["elimina account", "chiudi account", "chiudi conto", "disattiva"],
+    pt: ["excluir conta", "encerrar conta", "desativar"],
+    nl: ["account verwijderen", "account opheffen", "deactiveren"]
+  },
+  deletion: {
+    en: ["delete", "erase", "discard", "permanently remove"],
+    fr: ["supprimer", "effacer"],
+    es: ["eliminar", "borrar"],
+    de: ["loschen", "endgultig entfernen"],
+    it: ["elimina", "cancella"],
+    pt: ["excluir", "apagar"],
+    nl: ["verwijderen", "wissen"]
+  },
+  signOut: {
+    en: ["sign out", "signout", "log out", "logout", "log off", "disconnect"],
+    fr: ["se deconnecter", "deconnexion"],
+    es: ["cerrar sesion", "desconectar"],
+    de: ["abmelden", "ausloggen"],
+    it: ["esci", "disconnetti"],
+    pt: ["sair", "terminar sessao", "terminar sessão"],
+    nl: ["uitloggen", "afmelden"]
+  },
+  subscription: {
+    en: ["unsubscribe", "cancel subscription", "cancel my subscription", "cancel membership", "end subscription"],
+    fr: ["se desabonner", "desabonner", "resilier", "annuler l'abonnement"],
+    es: ["darse de baja", "cancelar suscripcion"],
+    de: ["kundigen", "abo kundigen", "abbestellen"],
+    it: ["annulla iscrizione", "disdici", "annulla abbonamento"],
+    pt: ["cancelar assinatura", "cancelar inscricao"],
+    nl: ["opzeggen", "abonnement opzeggen"]
+  },
+  confirmation: {
+    en: ["confirm", "i agree", "yes, continue"],
+    fr: ["confirmer", "valider"],
+    es: ["confirmar"],
+    de: ["bestatigen"],
+    it: ["conferma"],
+    pt: ["confirmar"],
+    nl: ["bevestigen"]
+  },
+  // Field labels and names that mark card, bank and identity numbers
+  sensitiveField: {
+    en: ["card number", "credit card", "cvv", "cvc", "security code", "iban", "routing number", "account number",
+         "social security", "ssn", "pin"],
+    fr: ["numero de carte", "cryptogramme", "code de securite", "numero de securite sociale"],
+    es: ["numero de tarjeta", "codigo de seguridad", "numero de cuenta"],
+    de: ["kartennummer", "prufnummer", "sicherheitscode", "kontonummer"],
+    it: ["numero della carta", "codice di sicurezza", "codice fiscale"],
+    pt: ["numero do cartao", "codigo de seguranca", "cpf"],
+    nl: ["kaartnummer", "beveiligingscode", "rekeningnummer"]
+  }
+}
+
+// ============================================
+// RULES
+// ============================================
+
+export interface PolicyRule {
+  id: string
+  label: string // Shown in Settings
+  appliesTo: PolicyActionKind[]
+  packs?: KeywordPackId[] // Phrases matched against the control's visible text and labels
+  fieldTypes?: string[] // Input types and autocomplete tokens (fills only)
+  defaultOutcome: PolicyOutcome
+}
+
+export const POLICY_RULES: PolicyRule[] = [
+  {
+    id: "payments",
+    label: "Paying, buying and sending money",
+    appliesTo: ["click"],
+    packs: ["payment"],
+    defaultOutcome: "block"
+  },
+  {
+    id: "account-deletion",
+    label: "Closing or deleting an account",
+    appliesTo: ["click"],
+    packs: ["accountDeletion"],
+    defaultOutcome: "block"
+  },
+  {
+    id: "deletion",
+    label: "Deleting things",
+    appliesTo: ["click"],
+    packs: ["deletion"],
+    defaultOutcome: "confirm"
+  },
+  {
+    id: "sign-out",
+    label: "Signing out",
+    appliesTo: ["click"],
+    packs: ["signOut"],
+    defaultOutcome: "confirm"
+  },
+  {
+    id: "subscriptions",
+    label: "Cancelling subscriptions",
+    appliesTo: ["click"],
+    packs: ["subscription"],
+    defaultOutcome: "confirm"
+  },
+  {
+    id: "confirmations",
+    label: "Confirm buttons",
+    appliesTo: ["click"],
+    packs: ["confirmation"],
+    defaultOutcome: "confirm"
+  },
+  {
+    id: "sensitive-fields",
+    label: "Typing passwords, card or bank numbers",
+    appliesTo: ["fill"],
+    packs: ["sensitiveField"],
+    fieldTypes: ["password", "current-password", "new-password", "one-time-code",
+                 "cc-number", "cc-csc", "cc-exp", "cc-exp-month", "cc-exp-year", "credit-card", "cvv"],
+    defaultOutcome: "block"
+  }
+]
+
+// ============================================
+// USER POLICY (stored in sync storage)
+// ============================================
+
+export interface DomainOverride {
+  domain: string
+  outcome: PolicyOutcome
+  ruleId?: string // Only this rule on the site; without it the outcome applies to every click and fill there
+}
+
+export interface SafetyPolicy {
+  ruleOutcomes: Record<string, PolicyOutcome> // Changes from each rule's default
+  languages: PolicyLanguage[]
+  domainOverrides: DomainOverride[]
+}
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  ruleOutcomes: {},
+  languages: POLICY_LANGUAGES.map((language) => language.id),
+  domainOverrides: []
+}
+
+function withDefaults(stored: Partial<SafetyPolicy> | undefined): SafetyPolicy {
+  return { ...DEFAULT_SAFETY_POLICY, ...(stored ?? {}) }
+}
+
+export async function loadSafetyPolicy(): Promise<SafetyPolicy> {
+  try {
+    const res = await chrome.storage.sync.get([SAFETY_POLICY_STORAGE_KEY])
+    return withDefaults(res[SAFETY_POLICY_STORAGE_KEY])
+  } catch {
+    return DEFAULT_SAFETY_POLICY
+  }
+}
+
+export async function saveSafetyPolicy(policy: SafetyPolicy) {
+  try {
+    await chrome.storage.sync.set({ [SAFETY_POLICY_STORAGE_KEY]: policy })
+  } catch (error) {
+    console.error("Failed to save safety policy:", error)
+  }
+}
+
+/**
+ * Calls the listener with the current policy and again whenever it changes.
+ * Returns a function that stops listening.
+ */
+export function subscribeToSafetyPolicy(listener: (policy: SafetyPolicy) => void): () => void {
+  let active = true
+
+  loadSafetyPolicy().then((policy) => {
+    if (active) listener(policy)
+  })
+
+  const handleChange = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    if (areaName === "sync" && changes[SAFETY_POLICY_STORAGE_KEY]) {
+      listener(withDefaults(changes[SAFETY_POLICY_STORAGE_KEY].newValue))
+    }
+  }
+
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => {
+    active = false
+    chrome.storage.onChanged.removeListener(handleChange)
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+const OUTCOME_SEVERITY: Record<PolicyOutcome, number> = { allow: 0, confirm: 1, block: 2 }
+
+/**
+ * Lowercases and strips accents so "Payer", "PAYER" and "payér" compare equal
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+/**
+ * True if the phrase appears as whole words, so "pay" matches "Pay now" but not "PayPal" or "display"
+ */
+export function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = normalizeText(phrase).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "u").test(text)
+}
+
+export interface PolicyRequest {
+  kind: PolicyActionKind
+  text: string // Visible text, value, aria-label, and for fields the label, name and placeholder
+  fieldTypes?: string[] // Input type and autocomplete tokens
+  url: string
+}
+
+export interface PolicyDecision {
+  outcome: PolicyOutcome
+  ruleId?: string
+  reason?: string
+}
+
+export function getRuleOutcome(policy: SafetyPolicy, rule: PolicyRule): PolicyOutcome {
+  return policy.ruleOutcomes[rule.id] ?? rule.defaultOutcome
+}
+
+/**
+ * Checks an action against the rules. The strictest matching rule wins; a site-wide override
+ * for the page's domain replaces the result entirely.
+ */
+export function evaluatePolicy(policy: SafetyPolicy, request: PolicyRequest): PolicyDecision {
+  let host = ""
+  try {
+    host = new URL(request.url).hostname
+  } catch {
+    // Not a web page; only the general rules apply
+  }
+  const overrides = host ? policy.domainOverrides.filter((o) => hostMatches(host, o.domain)) : []
+
+  const siteWide = overrides.find((o) => !o.ruleId)
+  if (siteWide) {
+    return { outcome: siteWide.outcome, reason: `your setting for ${siteWide.domain}` }
+  }
+
+  const text = normalizeText(request.text)
+  const fieldTypes = (request.fieldTypes ?? []).map((type) => type.toLowerCase())
+  let decision: PolicyDecision = { outcome: "allow" }
+
+  for (const rule of POLICY_RULES) {
+    if (!rule.appliesTo.includes(request.kind)) continue
+
+    const matchedType = rule.fieldTypes?.find((type) => fieldTypes.includes(type))
+    const matchedPhrase = matchedType ? undefined : (rule.packs ?? [])
+      .flatMap((pack) => policy.languages.flatMap((language) => KEYWORD_PACKS[pack][language] ?? []))
+      .find((phrase) => containsPhrase(text, phrase))
+    if (!matchedType && !matchedPhrase) continue
+
+    const override = overrides.find((o) => o.ruleId === rule.id)
+    const outcome = override?.outcome ?? getRuleOutcome(policy, rule)
+    if (OUTCOME_SEVERITY[outcome] >= OUTCOME_SEVERITY[decision.outcome]) {
+      decision = {
+        outcome,
+        ruleId: rule.id,
+        reason: matchedType ? `${rule.label} (${matchedType} field)` : `${rule.label} ("${matchedPhrase}")`
+      }
+    }
+  }
+
+  return decision
+}
@@ -0,0 +1,346 @@
+// src/lib/scam-detector.ts
+// Looks at the page text and address for signs of a scam (fake virus alerts, gift-card demands,
+// copied bank sites, passwords asked for over an unprotected connection) and warns in plain language
+
+import { findLookalike, displayHost, isPlausibleLookalike, type LookalikeReason } from "~lib/domain-similarity"
+import { loadScamRules, type ScamRuleSet } from "~lib/scam-rules"
+
+export type ScamRiskLevel = "none" | "caution" | "danger"
+
+export interface ScamSignal {
+  id: string
+  weight: number
+  title: string
+  explanation: string
+  evidence?: string // The words on the page that triggered it
+}
+
+// What the detector reads from a page; cheap to take on every page load and leaves the page untouched
+export interface ScamPageSnapshot {
+  url: string
+  title: string
+  text: string
+  hasPasswordField: boolean
+}
+
+export interface ScamReport {
+  url: string
+  host: string
+  riskLevel: ScamRiskLevel
+  score: number
+  signals: ScamSignal[]
+}
+
+// Sent by the page to the side panel once a page has been checked and found suspicious
+export interface ScamWarningMessage {
+  action: "SCAM_WARNING"
+  report: ScamReport
+  warningShown: boolean // The full-page warning went up
+  url: string
+}
+
+const LOOKALIKE_WEIGHTS: Record<LookalikeReason, number> = {
+  "homoglyph": 3,
+  "typo": 3,
+  "embedded": 2,
+  "other-ending": 2
+}
+
+// Signs needed before the page is covered, whatever the rules' weights
+const MIN_DANGER_SIGNALS = 2
+
+const WARNING_HOST_ID = "silver-surfer-scam-warning"
+const DISMISSED_KEY = "silver-surfer-scam-dismissed"
+
+// ============================================
+// DETECTION
+// ============================================
+
+function isLocalHost(host: string): boolean {
+  return host === "localhost" || /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(host) || host.endsWith(".local")
+}
+
+function findTextSignals(text: string, rules: ScamRuleSet): ScamSignal[] {
+  const signals: ScamSignal[] = []
+  for (const rule of rules.textSignals) {
+    for (const pattern of rule.patterns) {
+      let match: RegExpMatchArray | null = null
+      try {
+        match = text.match(new RegExp(pattern, "i"))
+      } catch {
+        // A broken pattern in an update mustn't stop the other checks
+        continue
+      }
+      if (match) {
+        signals.push({
+          id: rule.id,
+          weight: rule.weight,
+          title: rule.title,
+          explanation: rule.explanation,
+          evidence: match[0].substring(0, 80)
+        })
+        break
+      }
+    }
+  }
+  return signals
+}
+
+/**
+ * Scores the page against the rules. Each rule counts once; the total decides the risk level, but the
+ * full-page warning also needs at least two separate signs, so no single match can block a page.
+ */
+export function detectScamSignals(page: ScamPageSnapshot, rules: ScamRuleSet): ScamReport {
+  let url: URL | null = null
+  try {
+    url = new URL(page.url)
+  } catch {
+    // Not a web page
+  }
+  const host = url ? displayHost(url.hostname) : ""
+  const text = `${page.title}\n${page.text}`.replace(/\s+/g, " ")
+  const signals = findTextSignals(text, rules)
+
+  const hasPasswordField = page.hasPasswordField
+
+  if (url && host) {
+    const lookalike = findLookalike(url.hostname, rules.trustedDomains)
+    if (lookalike && isPlausibleLookalike(url.hostname, lookalike, hasPasswordField)) {
+      signals.push({
+        id: "lookalike-domain",
+        weight: LOOKALIKE_WEIGHTS[lookalike.reason],
+        title: `This address only looks like ${lookalike.trusted}`,
+        explanation: `You are on ${host}, which is not ${lookalike.trusted}. Scammers copy real websites to steal passwords and card numbers.`,
+        evidence: host
+      })
+      if (hasPasswordField) {
+        signals.push({
+          id: "lookalike-login",
+          weight: 1,
+          title: "It asks for your password",
+          explanation: `Only type your ${lookalike.trusted} password on ${lookalike.trusted} itself.`
+        })
+      }
+    }
+
+    if (url.protocol === "http:" && hasPasswordField && !isLocalHost(url.hostname)) {
+      signals.push({
+        id: "insecure-password",
+        weight: 3,
+        title: "Password box on an unprotected page",
+        explanation: "This page isn't secure (no padlock), so anything you type here can be read by others. Real banks never do this."
+      })
+    }
+  }
+
+  const score = signals.reduce((total, signal) => total + signal.weight, 0)
+  const riskLevel: ScamRiskLevel = score >= rules.warnScore && signals.length >= MIN_DANGER_SIGNALS
+    ? "danger"
+    : score >= rules.cautionScore ? "caution" : "none"
+
+  return { url: page.url, host, riskLevel, score, signals }
+}
+
+// ============================================
+// WARNING OVERLAY
+// ============================================
+
+const WARNING_CSS = `
+  :host { all: initial; }
+  .backdrop {
+    position: fixed; inset: 0; z-index: 2147483647;
+    display: flex; align-items: center; justify-content: center;
+    background: rgba(127, 29, 29, 0.85); padding: 16px;
+    font-family: "Comic Sans MS", "Chalkboard SE", system-ui, sans-serif;
+  }
+  .card {
+    max-width: 640px; width: 100%; max-height: 90vh; overflow-y: auto;
+    background: #fff; color: #000; border: 6px solid #000; border-radius: 16px;
+    box-shadow: 10px 10px 0 0 #000; padding: 28px;
+  }
+  h1 { margin: 0 0 8px; font-size: 40px; line-height: 1.1; color: #b91c1c; text-transform: uppercase; }
+  .lead { margin: 0 0 20px; font-size: 22px; font-weight: 700; }
+  ul { margin: 0 0 20px; padding: 0; list-style: none; }
+  li { margin-bottom: 14px; padding: 12px 14px; border: 3px solid #000; border-radius: 10px; background: #fef3c7; }
+  li strong { display: block; font-size: 21px; }
+  li span { display: block; font-size: 18px; margin-top: 4px; }
+  .advice { font-size: 19px; font-weight: 700; margin: 0 0 20px; }
+  .leave {
+    display: block; width: 100%; padding: 18px; font: inherit; font-size: 26px; font-weight: 900;
+    background: #16a34a; color: #fff; border: 4px solid #000; border-radius: 12px;
+    box-shadow: 5px 5px 0 0 #000; cursor: pointer; text-transform: uppercase;
+  }
+  .stay {
+    display: block; margin: 16px auto 0; padding: 8px; font: inherit; font-size: 16px;
+    background: none; border: none; color: #444; text-decoration: underline; cursor: pointer;
+  }
+`
+
+function wasDismissed(host: string): boolean {
+  try {
+    return sessionStorage.getItem(DISMISSED_KEY) === host
+  } catch {
+    return false
+  }
+}
+
+function rememberDismissal(host: string) {
+  try {
+    sessionStorage.setItem(DISMISSED_KEY, host)
+  } catch {
+    // Storage blocked; the warning will just show again on the next page
+  }
+}
+
+/**
+ * Covers the page with a large warning listing what looked wrong, with one big way out.
+ * The page's own scripts can't reach into it (closed shadow root).
+ */
+export function showScamWarning(report: ScamReport): boolean {
+  if (document.getElementById(WARNING_HOST_ID) || wasDismissed(report.host)) return false
+
+  // Fake virus pages go full screen, which would sit on top of anything we draw
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(() => {})
+  }
+
+  const host = document.createElement("div")
+  host.id = WARNING_HOST_ID
+  const shadow = host.attachShadow({ mode: "closed" })
+
+  const style = document.createElement("style")
+  style.textContent = WARNING_CSS
+  shadow.appendChild(style)
+
+  const backdrop = document.createElement("div")
+  backdrop.className = "backdrop"
+  backdrop.setAttribute("role", "alertdialog")
+  backdrop.setAttribute("aria-modal", "true")
+  backdrop.setAttribute("aria-labelledby", "scam-title")
+
+  const card = document.createElement("div")
+  card.className = "card"
+
+  const title = document.createElement("h1")
+  title.id = "scam-title"
+  title.textContent = "Stop! This page may be a scam"
+  card.appendChild(title)
+
+  const lead = document.createElement("p")
+  lead.className = "lead"
+  lead.textContent = "Silver Surfer noticed warning signs on this page:"
+  card.appendChild(lead)
+
+  const list = document.createElement("ul")
+  for (const signal of report.signals) {
+    const item = document.createElement("li")
+    const heading = document.createElement("strong")
+    heading.textContent = signal.title
+    const explanation = document.createElement("span")
+    explanation.textContent = signal.explanation
+    item.append(heading, explanation)
+    list.appendChild(item)
+  }
+  card.appendChild(list)
+
+  const advice = document.createElement("p")
+  advice.className = "advice"
+  advice.textContent = "Don't call any phone number, pay anything, or type passwords here. If you're not sure, ask someone you trust."
+  card.appendChild(advice)
+
+  const leave = document.createElement("button")
+  leave.className = "leave"
+  leave.textContent = "Get me out of here"
+  leave.addEventListener("click", () => {
+    host.remove()
+    if (window.history.length > 1) {
+      window.history.back()
+    } else {
+      window.location.replace("about:blank")
+    }
+  })
+  card.appendChild(leave)
+
+  const stay = document.createElement("button")
+  stay.className = "stay"
+  stay.textContent = "I know this site is safe, let me continue"
+  stay.addEventListener("click", () => {
+    rememberDismissal(report.host)
+    host.remove()
+  })
+  card.appendChild(stay)
+
+  backdrop.appendChild(card)
+  shadow.appendChild(backdrop)
+  document.documentElement.appendChild(host)
+  leave.focus()
+  return true
+}
+
+// ============================================
+// PAGE CHECK
+// ============================================
+
+// Scam pages often fill in their text after load; look once soon and once more a little later
+const FIRST_CHECK_DELAY_MS = 1500
+const SECOND_CHECK_DELAY_MS = 5000
+
+// Scam text sits near the top; a cap keeps the pattern matching quick on very long pages
+const MAX_SCAN_TEXT_LENGTH = 50000
+
+/**
+ * The visible text and whether there's a password box. Runs on every page, so no distilling and no refs written.
+ */
+function readPage(): ScamPageSnapshot | null {
+  if (!document.body) return null
+  return {
+    url: window.location.href,
+    title: document.title,
+    text: document.body.innerText.substring(0, MAX_SCAN_TEXT_LENGTH),
+    hasPasswordField: document.querySelector("input[type='password']") !== null
+  }
+}
+
+/**
+ * Reads the page and checks it against the current rules
+ */
+export async function checkPageForScams(): Promise<ScamReport | null> {
+  const page = readPage()
+  if (!page) return null
+  const rules = await loadScamRules()
+  return detectScamSignals(page, rules)
+}
+
+/**
+ * Checks the page shortly after it loads. Dangerous pages get the full-screen warning;
+ * anything suspicious is passed to onReport so the side panel can mention it.
+ */
+export function watchForScams(onReport: (report: ScamReport, warningShown: boolean) => void) {
+  let reported = false
+
+  const check = async () => {
+    if (reported) return
+    const report = await checkPageForScams()
+    if (!report || report.riskLevel === "none") return
+    // Caution found early may still turn into danger once the rest of the page loads
+    if (report.riskLevel === "caution" && !secondCheckDone) return
+    reported = true
+    const warningShown = report.riskLevel === "danger" && showScamWarning(report)
+    onReport(report, warningShown)
+  }
+
+  let secondCheckDone = false
+  const schedule = () => {
+    setTimeout(check, FIRST_CHECK_DELAY_MS)
+    setTimeout(() => {
+      secondCheckDone = true
+      check()
+    }, SECOND_CHECK_DELAY_MS)
+  }
+
+  if (document.readyState === "complete") {
+    schedule()
+  } else {
+    window.addEventListener("load", schedule, { once: true })
+  }
+}
@@ -0,0 +1,109 @@
+// src/lib/scam-rules.ts
+// The rules the scam detector runs on. A copy ships with the extension so warnings work offline;
+// a newer version published by the backend is kept in local storage and wins over the bundled one.
+
+import bundledRules from "~assets/scam-rules.json"
+
+export const SCAM_RULES_STORAGE_KEY = "scam_rules"
+
+export interface ScamTextSignal {
+  id: string
+  weight: number
+  title: string // Plain-language headline shown in the warning
+  explanation: string
+  patterns: string[] // Case-insensitive regular expressions, matched against the page text
+}
+
+export interface ScamRuleSet {
+  version: number
+  updatedAt: string
+  warnScore: number // Total weight at which the full-page warning appears
+  cautionScore: number // Total weight at which the chat mentions it without blocking the page
+  textSignals: ScamTextSignal[]
+  trustedDomains: string[] // Banks and services scammers imitate
+}
+
+export const BUNDLED_SCAM_RULES: ScamRuleSet = bundledRules
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string")
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i")
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isTextSignal(value: unknown): value is ScamTextSignal {
+  const signal = value as ScamTextSignal
+  return Boolean(
+    signal &&
+    typeof signal.id === "string" &&
+    isFiniteNumber(signal.weight) &&
+    typeof signal.title === "string" &&
+    typeof signal.explanation === "string" &&
+    isStringList(signal.patterns) &&
+    signal.patterns.every(isValidPattern)
+  )
+}
+
+/**
+ * Full check for rules that came over the network: the detector runs them on every page, inside timers,
+ * so a malformed update is refused whole rather than half-used. The scores must also make sense together:
+ * the chat mention comes before the full-page warning, and no single sign is enough for the warning.
+ */
+export function isScamRuleSet(value: unknown): value is ScamRuleSet {
+  const rules = value as ScamRuleSet
+  return Boolean(
+    rules &&
+    isFiniteNumber(rules.version) &&
+    typeof rules.updatedAt === "string" &&
+    isFiniteNumber(rules.warnScore) &&
+    isFiniteNumber(rules.cautionScore) &&
+    rules.cautionScore > 0 &&
+    rules.cautionScore <= rules.warnScore &&
+    Array.isArray(rules.textSignals) &&
+    rules.textSignals.every(isTextSignal) &&
+    rules.textSignals.every((signal) => signal.weight > 0 && signal.weight < rules.warnScore) &&
+    isStringList(rules.trustedDomains)
+  )
+}
+
+/**
+ * The newest rules available: the stored update if there is one, otherwise the bundled file
+ */
+export async function loadScamRules(): Promise<ScamRuleSet> {
+  try {
+    const res = await chrome.storage.local.get([SCAM_RULES_STORAGE_KEY])
+    const stored = res[SCAM_RULES_STORAGE_KEY]
+    if (isScamRuleSet(stored) && stored.version > BUNDLED_SCAM_RULES.version) {
+      return stored
+    }
+  } catch {
+    // Storage unavailable; the bundled rules still protect the user
+  }
+  return BUNDLED_SCAM_RULES
+}
+
+/**
+ * Keeps an updated rule set, if it's newer than what we already have. Returns true if it was stored.
+ */
+export async function storeScamRules(rules: ScamRuleSet): Promise<boolean> {
+  const current = await loadScamRules()
+  if (rules.version <= current.version) return false
+  try {
+    await chrome.storage.local.set({ [SCAM_RULES_STORAGE_KEY]: rules })
+    return true
+  } catch (error) {
+    console.error("Failed to store scam rules:", error)
+    return false
+  }
+}
@@ -0,0 +1,265 @@
+// src/lib/screenshot-processing.ts
+// Prepares captured screenshots before they're sent anywhere: blacks out personal details, masks password and
+// card fields, shrinks and re-encodes. Runs in the background service worker, so it draws with OffscreenCanvas.
+
+import type { ElementBounds } from "~types/conversation"
+
+export type ScreenshotFormat = "png" | "jpeg" | "webp"
+
+export interface ScreenshotOptions {
+  maxWidth: number // Output width cap in image pixels; smaller captures are never enlarged
+  format: ScreenshotFormat
+  quality: number // 0-1, ignored for PNG
+  maskSensitiveFields: boolean // Cover password and card fields whole, even while empty
+}
+
+// Plenty for the agent to read buttons and text, at a fraction of a full-resolution PNG
+export const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = {
+  maxWidth: 1280,
+  format: "jpeg",
+  quality: 0.7,
+  maskSensitiveFields: true
+}
+
+// A person reads help-request screenshots, so keep them sharper
+export const HELP_REQUEST_SCREENSHOT_OPTIONS: Partial<ScreenshotOptions> = {
+  maxWidth: 1600,
+  quality: 0.85
+}
+
+// What the page reported about the frame, in its CSS pixels
+export interface ScreenshotMasks {
+  regions: ElementBounds[] // Personal details; always blacked out
+  sensitiveFields: ElementBounds[] // Password and card fields; covered when maskSensitiveFields is on
+  viewportWidth: number
+}
+
+// Extra margin around each region so anti-aliased text edges don't peek out
+const REDACTION_PADDING_PX = 3
+
+// ============================================
+// LAST FRAME CACHE
+// ============================================
+
+interface CachedFrame {
+  tabId: number
+  url: string
+  raw: string // Data URL as captured
+  key: string // Masks and options it was processed with
+  processed: string
+  capturedAt: number
+}
+
+let lastFrame: CachedFrame | null = null
+
+/**
+ * The most recent processed frame of this tab and address, if it's not older than maxAgeMs
+ */
+export function getLastFrame(tabId: number, url: string, maxAgeMs: number): string | null {
+  if (!lastFrame || lastFrame.tabId !== tabId || lastFrame.url !== url) return null
+  return Date.now() - lastFrame.capturedAt <= maxAgeMs ? lastFrame.processed : null
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+export function resolveScreenshotOptions(options?: Partial<ScreenshotOptions>): ScreenshotOptions {
+  const resolved = { ...DEFAULT_SCREENSHOT_OPTIONS, ...(options ?? {}) }
+  return {
+    ...resolved,
+    maxWidth: Math.max(320, Math.round(resolved.maxWidth)),
+    quality: Math.min(1, Math.max(0.1, resolved.quality))
+  }
+}
+
+async function dataUrlToBitmap(dataUrl: string): Promise<ImageBitmap> {
+  const blob = await (await fetch(dataUrl)).blob()
+  return createImageBitmap(blob)
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ""
+  // Chunked so large screenshots don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`
+}
+
+// Regions are in viewport CSS pixels; offset moves them to where that viewport sits in the output
+function fillRegions(
+  context: OffscreenCanvasRenderingContext2D,
+  regions: ElementBounds[],
+  scale: number,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+) {
+  for (const region of regions) {
+    context.fillRect(
+      Math.floor((region.x + offset.x - REDACTION_PADDING_PX) * scale),
+      Math.floor((region.y + offset.y - REDACTION_PADDING_PX) * scale),
+      Math.ceil((region.width + REDACTION_PADDING_PX * 2) * scale),
+      Math.ceil((region.height + REDACTION_PADDING_PX * 2) * scale)
+    )
+  }
+}
+
+function drawMasks(
+  context: OffscreenCanvasRenderingContext2D,
+  masks: ScreenshotMasks,
+  options: ScreenshotOptions,
+  scale: number,
+  offset?: { x: number; y: number }
+) {
+  context.fillStyle = "#000000"
+  fillRegions(context, masks.regions, scale, offset)
+  if (options.maskSensitiveFields) {
+    fillRegions(context, masks.sensitiveFields, scale, offset)
+  }
+}
+
+function createCanvas(width: number, height: number): { canvas: OffscreenCanvas; context: OffscreenCanvasRenderingContext2D } {
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)))
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas is not available")
+  context.imageSmoothingQuality = "high"
+  return { canvas, context }
+}
+
+async function encode(canvas: OffscreenCanvas, options: ScreenshotOptions): Promise<string> {
+  const blob = await canvas.convertToBlob({
+    type: `image/${options.format}`,
+    quality: options.format === "png" ? undefined : options.quality
+  })
+  return blobToDataUrl(blob)
+}
+
+// Captures are in device pixels: CSS pixels times devicePixelRatio (and browser zoom), measured from the image
+function deviceScale(bitmap: ImageBitmap, viewportWidth: number): number {
+  return viewportWidth > 0 ? bitmap.width / viewportWidth : 1
+}
+
+/**
+ * Masks, downsizes and re-encodes one captured frame. An unchanged frame of the same tab with the same
+ * masks and options comes straight from the cache.
+ */
+export async function processScreenshot(
+  rawDataUrl: string,
+  masks: ScreenshotMasks,
+  source: { tabId: number; url: string },
+  options?: Partial<ScreenshotOptions>
+): Promise<string> {
+  const resolved = resolveScreenshotOptions(options)
+  const key = JSON.stringify([masks, resolved])
+  if (lastFrame && lastFrame.tabId === source.tabId && lastFrame.raw === rawDataUrl && lastFrame.key === key) {
+    lastFrame.capturedAt = Date.now()
+    return lastFrame.processed
+  }
+
+  const bitmap = await dataUrlToBitmap(rawDataUrl)
+  const resize = Math.min(1, resolved.maxWidth / bitmap.width)
+  // Page CSS pixels -> captured device pixels -> output pixels
+  const scale = deviceScale(bitmap, masks.viewportWidth) * resize
+
+  let canvas: OffscreenCanvas
+  try {
+    const created = createCanvas(bitmap.width * resize, bitmap.height * resize)
+    canvas = created.canvas
+    created.context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    drawMasks(created.context, masks, resolved, scale)
+  } finally {
+    bitmap.close()
+  }
+  const processed = await encode(canvas, resolved)
+
+  lastFrame = { ...source, raw: rawDataUrl, key, processed, capturedAt: Date.now() }
+  return processed
+}
+
+// ============================================
+// FULL PAGE AND ELEMENT CAPTURES
+// ============================================
+
+// One viewport-sized capture of a full-page screenshot
+export interface CapturedSlice {
+  raw: string
+  masks: ScreenshotMasks
+  scrollY: number // Where the page was scrolled to, in CSS pixels
+}
+
+// Breathing room around a cropped element, in CSS pixels
+const CROP_PADDING_PX = 8
+
+/**
+ * Stacks the slices of a scrolled page into one image of pageHeight CSS pixels, masking each slice as it's drawn
+ * so a later slice can't uncover what an earlier one hid
+ */
+export async function stitchScreenshots(
+  slices: CapturedSlice[],
+  pageHeight: number,
+  options?: Partial<ScreenshotOptions>
+): Promise<string> {
+  if (slices.length === 0) throw new Error("Nothing was captured")
+  const resolved = resolveScreenshotOptions(options)
+
+  let canvas: OffscreenCanvas | null = null
+  let context: OffscreenCanvasRenderingContext2D | null = null
+  let scale = 1
+  let resize = 1
+
+  for (const slice of slices) {
+    const bitmap = await dataUrlToBitmap(slice.raw)
+    try {
+      if (!canvas || !context) {
+        resize = Math.min(1, resolved.maxWidth / bitmap.width)
+        scale = deviceScale(bitmap, slice.masks.viewportWidth) * resize
+        const created = createCanvas(bitmap.width * resize, pageHeight * scale)
+        canvas = created.canvas
+        context = created.context
+      }
+      context.drawImage(bitmap, 0, Math.round(slice.scrollY * scale), canvas.width, Math.round(bitmap.height * resize))
+      drawMasks(context, slice.masks, resolved, scale, { x: 0, y: slice.scrollY })
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  return encode(canvas!, resolved)
+}
+
+/**
+ * Cuts one element (plus a little margin) out of a viewport capture. Parts of the element outside the
+ * viewport can't be in the image, so the crop stops at its edges.
+ */
+export async function cropScreenshot(
+  rawDataUrl: string,
+  masks: ScreenshotMasks,
+  crop: ElementBounds,
+  options?: Partial<ScreenshotOptions>
+): Promise<string> {
+  const resolved = resolveScreenshotOptions(options)
+  const bitmap = await dataUrlToBitmap(rawDataUrl)
+  try {
+    const ratio = deviceScale(bitmap, masks.viewportWidth)
+    const viewportHeight = bitmap.height / ratio
+    const left = Math.max(0, crop.x - CROP_PADDING_PX)
+    const top = Math.max(0, crop.y - CROP_PADDING_PX)
+    const right = Math.min(masks.viewportWidth || bitmap.width, crop.x + crop.width + CROP_PADDING_PX)
+    const bottom = Math.min(viewportHeight, crop.y + crop.height + CROP_PADDING_PX)
+    if (right <= left || bottom <= top) throw new Error("Element is outside the visible area")
+
+    const resize = Math.min(1, resolved.maxWidth / ((right - left) * ratio))
+    const scale = ratio * resize
+    const { canvas, context } = createCanvas((right - left) * scale, (bottom - top) * scale)
+    context.drawImage(
+      bitmap,
+      left * ratio, top * ratio, (right - left) * ratio, (bottom - top) * ratio,
+      0, 0, canvas.width, canvas.height
+    )
+    drawMasks(context, masks, resolved, scale, { x: -left, y: -top })
+    return encode(canvas, resolved)
+  } finally {
+    bitmap.close()
+  }
+}
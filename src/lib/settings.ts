@@ -0,0 +1,77 @@
+// src/lib/settings.ts
+// User preferences shared by the Settings tab, the side panel and content scripts
+
+export const SETTINGS_STORAGE_KEY = "settings"
+
+export interface SettingsState {
+  highContrast: boolean
+  voiceAssist: boolean
+  largeTextBoost: boolean
+  askBeforeEachStep: boolean // Pause for a Yes/No before the assistant clicks or types
+  allowedSites: string[] // Domains the assistant may open besides the current site
+  trustedSites: string[] // The user's bank, pharmacy, email...; addresses imitating these are stopped
+  autoHandleConsent: boolean // Turn down cookie banners on arrival, choosing the most private option
+  scamWarnings: boolean // Check each page for scam signs and warn before the user can be tricked
+}
+
+export const DEFAULT_SETTINGS: SettingsState = {
+  highContrast: true,
+  voiceAssist: false,
+  largeTextBoost: false,
+  askBeforeEachStep: false,
+  allowedSites: [],
+  trustedSites: [],
+  autoHandleConsent: true,
+  scamWarnings: true
+}
+
+function withDefaults(stored: Partial<SettingsState> | undefined): SettingsState {
+  return { ...DEFAULT_SETTINGS, ...(stored ?? {}) }
+}
+
+/**
+ * Reads the saved settings, filling in defaults for anything missing
+ */
+export async function loadSettings(): Promise<SettingsState> {
+  try {
+    const res = await chrome.storage.sync.get([SETTINGS_STORAGE_KEY])
+    return withDefaults(res[SETTINGS_STORAGE_KEY])
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export async function saveSettings(settings: SettingsState) {
+  try {
+    await chrome.storage.sync.set({ [SETTINGS_STORAGE_KEY]: settings })
+  } catch (error) {
+    console.error("Failed to save settings:", error)
+  }
+}
+
+/**
+ * Calls the listener with the current settings and again whenever they change.
+ * Returns a function that stops listening.
+ */
+export function subscribeToSettings(listener: (settings: SettingsState) => void): () => void {
+  let active = true
+
+  loadSettings().then((settings) => {
+    if (active) listener(settings)
+  })
+
+  const handleChange = (
+    changes: Record<string, chrome.storage.StorageChange>,
+    areaName: string
+  ) => {
+    if (areaName === "sync" && changes[SETTINGS_STORAGE_KEY]) {
+      listener(withDefaults(changes[SETTINGS_STORAGE_KEY].newValue))
+    }
+  }
+
+  chrome.storage.onChanged.addListener(handleChange)
+  return () => {
+    active = false
+    chrome.storage.onChanged.removeListener(handleChange)
+  }
+}
@@ -0,0 +1,120 @@
+// src/lib/tab-navigation.ts
+// Browser-level navigation for agent actions (back, open a URL, reload) and the checks around it
+
+// Give slow pages this long to finish loading before the task moves on anyway
+const NAVIGATION_TIMEOUT_MS = 15000
+
+/**
+ * Runs a navigation and resolves once the tab reports status "complete".
+ * The listener is attached before navigating so a fast load can't be missed.
+ * Resolves false if the page is still loading when the timeout hits.
+ */
+export function navigateAndWait(
+  tabId: number,
+  navigate: () => Promise<unknown>,
+  timeoutMs: number = NAVIGATION_TIMEOUT_MS
+): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    let started = false
+
+    const finish = (completed: boolean) => {
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(handleUpdate)
+      resolve(completed)
+    }
+
+    const handleUpdate = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId !== tabId) return
+      // Ignore a stale "complete" from the previous page; wait for the new load to start first
+      if (changeInfo.status === "loading") started = true
+      if (changeInfo.status === "complete" && started) finish(true)
+    }
+
+    const timer = setTimeout(() => finish(false), timeoutMs)
+    chrome.tabs.onUpdated.addListener(handleUpdate)
+
+    navigate().catch((error) => {
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(handleUpdate)
+      reject(error)
+    })
+  })
+}
+
+/**
+ * Resolves once the tab has finished loading, straight away if it already has.
+ * Resolves false if it's still loading when the timeout hits.
+ */
+export function waitForTabComplete(tabId: number, timeoutMs: number = NAVIGATION_TIMEOUT_MS): Promise<boolean> {
+  return new Promise((resolve) => {
+    const finish = (completed: boolean) => {
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(handleUpdate)
+      resolve(completed)
+    }
+
+    const handleUpdate = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedTabId === tabId && changeInfo.status === "complete") finish(true)
+    }
+
+    const timer = setTimeout(() => finish(false), timeoutMs)
+    chrome.tabs.onUpdated.addListener(handleUpdate)
+
+    chrome.tabs.get(tabId).then(
+      (tab) => {
+        if (tab.status === "complete") finish(true)
+      },
+      () => finish(false)
+    )
+  })
+}
+
+/**
+ * True if the host is the domain itself or one of its subdomains
+ */
+export function hostMatches(host: string, domain: string): boolean {
+  const cleanDomain = domain.trim().toLowerCase().replace(/^\*\./, "").replace(/^www\./, "")
+  if (!cleanDomain) return false
+  const cleanHost = host.toLowerCase().replace(/^www\./, "")
+  return cleanHost === cleanDomain || cleanHost.endsWith(`.${cleanDomain}`)
+}
+
+/**
+ * Decides whether the agent may open a URL: web pages only, on the current site or on a site
+ * the user listed in Settings
+ */
+export function checkNavigationAllowed(
+  targetUrl: string,
+  currentUrl: string | undefined,
+  allowedSites: string[]
+): { allowed: boolean; reason?: string } {
+  let target: URL
+  try {
+    target = new URL(targetUrl)
+  } catch {
+    return { allowed: false, reason: `Not a valid web address: ${targetUrl}` }
+  }
+
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    return { allowed: false, reason: `Only web pages can be opened, not ${target.protocol} links` }
+  }
+
+  if (currentUrl) {
+    try {
+      if (hostMatches(target.hostname, new URL(currentUrl).hostname)) {
+        return { allowed: true }
+      }
+    } catch {
+      // Current tab has no parseable URL; fall through to the allowlist
+    }
+  }
+
+  if (allowedSites.some((site) => hostMatches(target.hostname, site))) {
+    return { allowed: true }
+  }
+
+  return {
+    allowed: false,
+    reason: `Blocked: ${target.hostname} isn't on your list of sites the assistant may open. You can add it in Settings.`
+  }
+}
@@ -0,0 +1,97 @@
+// src/lib/tab-sessions.ts
+// Keeps one chat conversation per browser tab for the rest of the browser session, so switching tabs,
+// following links or reopening the side panel brings back the conversation that belongs to the page
+
+import type { ChatMessage } from "~types/conversation"
+
+// Session storage, one key per tab so saving one tab's conversation never races with loading another's
+const TAB_CONVERSATION_KEY_PREFIX = "tab_conversation_"
+
+export interface TabConversation {
+  tabId: number
+  sessionId: string | null
+  title: string | null
+  pageUrl: string | null // Page the conversation is about; follows the assistant's own navigation
+  messages: ChatMessage[]
+  isComplete: boolean
+  isCancelled: boolean
+}
+
+// Dates don't survive storage, so messages are kept with ISO timestamps
+type StoredMessage = Omit<ChatMessage, "timestamp"> & { timestamp: string }
+type StoredConversation = Omit<TabConversation, "messages"> & { messages: StoredMessage[]; updatedAt: string }
+
+function storageKey(tabId: number): string {
+  return `${TAB_CONVERSATION_KEY_PREFIX}${tabId}`
+}
+
+/**
+ * The conversation saved for a tab. A task can't outlive the side panel, so steps still waiting
+ * for approval come back as declined.
+ */
+export async function loadTabConversation(tabId: number): Promise<TabConversation | null> {
+  try {
+    const res = await chrome.storage.session.get([storageKey(tabId)])
+    const stored: StoredConversation | undefined = res[storageKey(tabId)]
+    if (!stored) return null
+    return {
+      tabId: stored.tabId,
+      sessionId: stored.sessionId,
+      title: stored.title,
+      pageUrl: stored.pageUrl,
+      isComplete: stored.isComplete,
+      isCancelled: stored.isCancelled,
+      messages: stored.messages.map((message) => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+        isLoading: undefined,
+        approval: message.approval?.status === "pending" ? { ...message.approval, status: "declined" } : message.approval
+      }))
+    }
+  } catch (error) {
+    console.error("Failed to load tab conversation:", error)
+    return null
+  }
+}
+
+/**
+ * Saves a tab's conversation; an empty one clears what was saved
+ */
+export async function saveTabConversation(conversation: TabConversation) {
+  if (conversation.messages.length === 0) {
+    await removeTabConversation(conversation.tabId)
+    return
+  }
+  const stored: StoredConversation = {
+    ...conversation,
+    messages: conversation.messages.map((message) => ({ ...message, timestamp: message.timestamp.toISOString() })),
+    updatedAt: new Date().toISOString()
+  }
+  try {
+    await chrome.storage.session.set({ [storageKey(conversation.tabId)]: stored })
+  } catch (error) {
+    console.error("Failed to save tab conversation:", error)
+  }
+}
+
+export async function removeTabConversation(tabId: number) {
+  try {
+    await chrome.storage.session.remove([storageKey(tabId)])
+  } catch (error) {
+    console.error("Failed to remove tab conversation:", error)
+  }
+}
+
+/**
+ * Whether two addresses are the same page for the conversation's purposes: hash and query changes
+ * (filters, anchors, pagination) don't count. Unreadable addresses are treated as the same page.
+ */
+export function isSamePage(a: string, b: string): boolean {
+  try {
+    const first = new URL(a)
+    const second = new URL(b)
+    return first.origin === second.origin && first.pathname === second.pathname
+  } catch {
+    return true
+  }
+}
@@ -0,0 +1,247 @@
+// src/lib/undo-journal.ts
+// Records every change page actions make to the DOM together with what was there before,
+// so the user can undo the last change or put the whole page back the way it was
+
+type FormField = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+
+type Change =
+  | { type: "style"; element: HTMLElement; property: string; value: string; priority: string }
+  | { type: "attribute"; element: Element; name: string; value: string | null }
+  | { type: "value"; element: FormField; value: string }
+  | { type: "checked"; element: HTMLInputElement; checked: boolean }
+  | { type: "content"; element: HTMLElement; html: string }
+  | { type: "media"; element: HTMLMediaElement; paused: boolean; muted: boolean }
+  | { type: "node"; node: Node }
+
+/**
+ * One user-visible action's worth of changes, undone together
+ */
+interface Transaction {
+  kind: string // Which action made it ("highlight", "clutter", "fill", ...)
+  description: string
+  changes: Change[]
+}
+
+// Enough to walk back a long task; older changes can still be cleared by the action's own reset
+const MAX_TRANSACTIONS = 100
+
+const transactions: Transaction[] = []
+let current: Transaction | null = null
+
+/**
+ * Runs an action, journaling the changes it makes through the helpers below as one transaction.
+ * Nested calls (an action built from other actions) join the outer transaction.
+ */
+export function recordChanges<T>(kind: string, description: string, run: () => T): T {
+  if (current) return run()
+
+  const transaction: Transaction = { kind, description, changes: [] }
+  current = transaction
+  try {
+    return run()
+  } finally {
+    current = null
+    if (transaction.changes.length > 0) {
+      transactions.push(transaction)
+      if (transactions.length > MAX_TRANSACTIONS) transactions.shift()
+    }
+  }
+}
+
+function record(change: Change) {
+  current?.changes.push(change)
+}
+
+// ============================================
+// RECORDED CHANGES
+// ============================================
+
+/**
+ * Sets an inline style property (important by default, so page CSS can't override it)
+ */
+export function setStyle(element: HTMLElement, property: string, value: string, priority: string = "important") {
+  record({
+    type: "style",
+    element,
+    property,
+    value: element.style.getPropertyValue(property),
+    priority: element.style.getPropertyPriority(property)
+  })
+  element.style.setProperty(property, value, priority)
+}
+
+/**
+ * Sets an attribute, or removes it when the value is null
+ */
+export function setAttribute(element: Element, name: string, value: string | null) {
+  record({ type: "attribute", element, name, value: element.getAttribute(name) })
+  if (value === null) {
+    element.removeAttribute(name)
+  } else {
+    element.setAttribute(name, value)
+  }
+}
+
+/**
+ * Adds a node we created (a stylesheet, an overlay) to the page
+ */
+export function insertNode(parent: Node, node: Node) {
+  parent.appendChild(node)
+  record({ type: "node", node })
+}
+
+/**
+ * Sets a field's value through the native setter, so frameworks that track the
+ * value themselves (React, Vue) notice the change, then fires input and change
+ */
+export function setNativeValue(element: FormField, value: string) {
+  record({ type: "value", element, value: element.value })
+  writeNativeValue(element, value)
+}
+
+function writeNativeValue(element: FormField, value: string) {
+  const prototype = element.tagName === "TEXTAREA"
+    ? HTMLTextAreaElement.prototype
+    : element.tagName === "SELECT"
+      ? HTMLSelectElement.prototype
+      : HTMLInputElement.prototype
+  const setter = Object.getOwnPropertyDescriptor(prototype, "value")?.set
+  if (setter) {
+    setter.call(element, value)
+  } else {
+    element.value = value
+  }
+  element.dispatchEvent(new Event("input", { bubbles: true }))
+  element.dispatchEvent(new Event("change", { bubbles: true }))
+}
+
+/**
+ * Notes the checked state of native checkboxes and radios before something clicks them
+ */
+export function rememberChecked(elements: HTMLElement[]) {
+  for (const element of elements) {
+    if (element.tagName === "INPUT") {
+      record({ type: "checked", element: element as HTMLInputElement, checked: (element as HTMLInputElement).checked })
+    }
+  }
+}
+
+/**
+ * Notes a rich text editor's content before it's replaced
+ */
+export function rememberContent(element: HTMLElement) {
+  record({ type: "content", element, html: element.innerHTML })
+}
+
+/**
+ * Pauses and mutes a video or audio element
+ */
+export function silenceMedia(element: HTMLMediaElement) {
+  record({ type: "media", element, paused: element.paused, muted: element.muted })
+  element.pause()
+  element.muted = true
+}
+
+// ============================================
+// UNDO
+// ============================================
+
+function revertChange(change: Change) {
+  switch (change.type) {
+    case "style":
+      if (change.value) {
+        change.element.style.setProperty(change.property, change.value, change.priority)
+      } else {
+        change.element.style.removeProperty(change.property)
+      }
+      // Leave no empty style="" behind on elements that had none
+      if (change.element.style.length === 0) change.element.removeAttribute("style")
+      break
+
+    case "attribute":
+      if (change.value === null) {
+        change.element.removeAttribute(change.name)
+      } else {
+        change.element.setAttribute(change.name, change.value)
+      }
+      break
+
+    case "value":
+      writeNativeValue(change.element, change.value)
+      break
+
+    case "checked":
+      if (change.element.checked !== change.checked) {
+        change.element.checked = change.checked
+        change.element.dispatchEvent(new Event("input", { bubbles: true }))
+        change.element.dispatchEvent(new Event("change", { bubbles: true }))
+      }
+      break
+
+    case "content":
+      change.element.innerHTML = change.html
+      change.element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "historyUndo" }))
+      break
+
+    case "media":
+      change.element.muted = change.muted
+      if (!change.paused) change.element.play().catch(() => {})
+      break
+
+    case "node":
+      change.node.parentNode?.removeChild(change.node)
+      break
+  }
+}
+
+function revertTransaction(transaction: Transaction) {
+  for (let i = transaction.changes.length - 1; i >= 0; i--) {
+    try {
+      revertChange(transaction.changes[i])
+    } catch {
+      // The element may have been replaced by the page since; carry on with the rest
+    }
+  }
+}
+
+/**
+ * Undoes every recorded transaction of one kind, newest first, and drops them from the journal.
+ * Returns how many were undone.
+ */
+export function revertKind(kind: string): number {
+  let count = 0
+  for (let i = transactions.length - 1; i >= 0; i--) {
+    if (transactions[i].kind === kind) {
+      revertTransaction(transactions[i])
+      transactions.splice(i, 1)
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Undoes the most recent page change
+ */
+export function undoLast(): { success: boolean; message: string; remaining: number } {
+  const transaction = transactions.pop()
+  if (!transaction) {
+    return { success: false, message: "Nothing to undo on this page", remaining: 0 }
+  }
+  revertTransaction(transaction)
+  return { success: true, message: `Undid: ${transaction.description}`, remaining: transactions.length }
+}
+
+/**
+ * Undoes every recorded change, putting the page back the way it was
+ */
+export function undoAll(): { success: boolean; message: string; remaining: number } {
+  if (transactions.length === 0) {
+    return { success: false, message: "Nothing to undo on this page", remaining: 0 }
+  }
+  const count = transactions.length
+  while (transactions.length > 0) {
+    revertTransaction(transactions.pop()!)
+  }
+  return { success: true, message: `Undid ${count} change${count === 1 ? "" : "s"}`, remaining: 0 }
+}
@@ -8,6 +8,7 @@ import TestTab from "./components/TestTab"
 import ChatTab from "./components/ChatTab"
 import SimplifyTab from "./components/SimplifyTab"
 import HelpRequestButton from "./components/HelpRequestButton"
+import LookalikeInterstitial from "./components/LookalikeInterstitial"
 import logo from "data-base64:~assets/final_logo.svg"
 
 declare global {
@@ -128,7 +129,7 @@ export default function SidePanel() {
   // Show main app if authenticated
   return (
     <div className={rootClass}>
-      <div className="mx-auto flex h-[calc(100vh-24px)] w-full max-w-md flex-col overflow-hidden rounded-lg border-4 border-ink bg-white shadow-comic-lg transition-colors duration-300 dark:bg-slate-800">
+      <div className="relative mx-auto flex h-[calc(100vh-24px)] w-full max-w-md flex-col overflow-hidden rounded-lg border-4 border-ink bg-white shadow-comic-lg transition-colors duration-300 dark:bg-slate-800">
         {/* Header */}
         <div className="relative z-20 shrink-0 border-b-4 border-ink bg-white p-4 pb-0 dark:bg-slate-900">
           <div className="mb-4 flex items-center justify-between px-2">
@@ -256,6 +257,9 @@ export default function SidePanel() {
 
         {/* Help Request Button - Always visible */}
         <HelpRequestButton />
+
+        {/* Blocks everything above while the tab is on a copy of a trusted site (a banner for similar addresses) */}
+        <LookalikeInterstitial />
       </div>
     </div>
   )
@@ -0,0 +1,45 @@
+// src/tabs/lookalike-warning.tsx
+// Full-tab warning that replaces a page imitating one of the user's trusted sites, before that page can be used.
+// Stays up (side panel open or not) until the user picks a way out.
+import { useEffect, useState } from "react"
+import LookalikeWarningCard from "~components/LookalikeWarningCard"
+import { subscribeToLookalikeAlerts, type LookalikeAlert } from "~lib/lookalike-guard"
+import "../style.css"
+
+export default function LookalikeWarningPage() {
+  const [tabId, setTabId] = useState<number | null>(null)
+  const [alerts, setAlerts] = useState<Record<string, LookalikeAlert>>({})
+  const flaggedUrl = new URLSearchParams(window.location.search).get("url") ?? ""
+
+  useEffect(() => {
+    chrome.tabs.getCurrent().then((tab) => {
+      if (tab?.id) setTabId(tab.id)
+    })
+  }, [])
+
+  useEffect(() => subscribeToLookalikeAlerts(setAlerts), [])
+
+  const alert = tabId !== null ? alerts[tabId] : undefined
+
+  useEffect(() => {
+    document.title = alert ? `Warning: this is not ${alert.trusted}` : "Warning"
+  }, [alert])
+
+  return (
+    <div className="bg-dots flex min-h-screen w-full items-center justify-center bg-comic-red p-6 font-body">
+      <div className="w-full max-w-2xl" role="alertdialog" aria-modal="true" aria-labelledby="lookalike-title">
+        {alert ? (
+          <LookalikeWarningCard alert={alert} />
+        ) : (
+          // Already answered (from the side panel) or the warning was cleared; the tab is on its way elsewhere
+          <div className="rounded-lg border-4 border-ink bg-white p-5 shadow-comic-lg">
+            <h2 id="lookalike-title" className="font-display mb-2 text-3xl uppercase text-ink">
+              Copycat site warning
+            </h2>
+            <p className="break-all text-lg font-bold text-gray-700">{flaggedUrl}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
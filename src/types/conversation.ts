@@ -5,6 +5,7 @@
 export type ActionType =
   | "click"
   | "wait"
+  | "wait_for"
   | "message"
   | "complete"
   | "highlight"
@@ -16,15 +17,31 @@ export type ActionType =
   | "select_dropdown"
   | "remove_clutter"
   | "restore_clutter"
+  | "toggle_checkbox"
+  | "choose_radio"
+  | "set_date"
+  | "choose_option"
+  | "press_key"
+  | "navigate_back"
+  | "navigate_to"
+  | "reload"
+  | "capture_screenshot"
 
 interface BaseAction {
   timestamp: string
   reasoning?: string
 }
 
-export interface ClickAction extends BaseAction {
+// Actions that target an element accept either the distilled element's ref or a CSS selector.
+// element_ref is resolved first; the selector is the fallback.
+interface ElementTargetFields {
+  element_ref?: string
+  scope?: ScopeStep[] // Copied from the distilled element when it lives in a frame or shadow root
+}
+
+export interface ClickAction extends BaseAction, ElementTargetFields {
   action_type: "click"
-  x_path: string
+  x_path?: string
 }
 
 export interface WaitAction extends BaseAction {
@@ -32,6 +49,22 @@ export interface WaitAction extends BaseAction {
   duration: number
 }
 
+export type WaitCondition =
+  | "element_appears"
+  | "element_disappears"
+  | "text_present"
+  | "url_changes"
+  | "dom_idle" // No elements added or removed for quiet_ms; approximates the page finishing its network requests
+
+export interface WaitForAction extends BaseAction, ElementTargetFields {
+  action_type: "wait_for"
+  condition: WaitCondition
+  selector?: string // For element_appears / element_disappears
+  text?: string // For text_present
+  timeout_ms?: number // Defaults to 10 seconds, capped at 30
+  quiet_ms?: number // For dom_idle
+}
+
 export interface MessageAction extends BaseAction {
   action_type: "message"
   message: string
@@ -42,18 +75,18 @@ export interface CompleteAction extends BaseAction {
   message: string
 }
 
-export interface HighlightAction extends BaseAction {
+export interface HighlightAction extends BaseAction, ElementTargetFields {
   action_type: "highlight"
-  selector: string
+  selector?: string
 }
 
 export interface RemoveHighlightsAction extends BaseAction {
   action_type: "remove_highlights"
 }
 
-export interface MagnifyAction extends BaseAction {
+export interface MagnifyAction extends BaseAction, ElementTargetFields {
   action_type: "magnify"
-  selector: string
+  selector?: string
   scale_factor?: number
 }
 
@@ -61,20 +94,20 @@ export interface ResetMagnificationAction extends BaseAction {
   action_type: "reset_magnification"
 }
 
-export interface ScrollAction extends BaseAction {
+export interface ScrollAction extends BaseAction, ElementTargetFields {
   action_type: "scroll"
-  selector: string
+  selector?: string
 }
 
-export interface FillFormAction extends BaseAction {
+export interface FillFormAction extends BaseAction, ElementTargetFields {
   action_type: "fill_form"
-  selector: string
+  selector?: string
   value: string
 }
 
-export interface SelectDropdownAction extends BaseAction {
+export interface SelectDropdownAction extends BaseAction, ElementTargetFields {
   action_type: "select_dropdown"
-  selector: string
+  selector?: string
   value: string
 }
 
@@ -86,9 +119,60 @@ export interface RestoreClutterAction extends BaseAction {
   action_type: "restore_clutter"
 }
 
+export interface ToggleCheckboxAction extends BaseAction, ElementTargetFields {
+  action_type: "toggle_checkbox"
+  selector?: string
+  checked?: boolean // Desired state; flips the checkbox when omitted
+}
+
+export interface ChooseRadioAction extends BaseAction, ElementTargetFields {
+  action_type: "choose_radio"
+  selector?: string // The radio itself, or its group when value is given
+  value?: string // Visible label or value of the choice
+}
+
+export interface SetDateAction extends BaseAction, ElementTargetFields {
+  action_type: "set_date"
+  selector?: string
+  value: string // e.g. "1950-03-05" or "March 5, 1950"
+}
+
+export interface ChooseOptionAction extends BaseAction, ElementTargetFields {
+  action_type: "choose_option"
+  selector?: string // Native select, ARIA combobox or listbox
+  value: string // Visible text of the option
+}
+
+export interface PressKeyAction extends BaseAction, ElementTargetFields {
+  action_type: "press_key"
+  key: string // e.g. "Enter", "Tab", "Escape", "Shift+Tab"
+  selector?: string // Defaults to the focused element
+}
+
+export interface NavigateBackAction extends BaseAction {
+  action_type: "navigate_back"
+}
+
+export interface NavigateToAction extends BaseAction {
+  action_type: "navigate_to"
+  url: string // Must be on the current site or the allowlist in Settings
+}
+
+export interface ReloadAction extends BaseAction {
+  action_type: "reload"
+}
+
+// Asks for the next observation's screenshot to show the whole page or one element instead of the visible area
+export interface CaptureScreenshotAction extends BaseAction, ElementTargetFields {
+  action_type: "capture_screenshot"
+  mode: "full_page" | "element"
+  selector?: string // With mode "element"
+}
+
 export type ConversationAction =
   | ClickAction
   | WaitAction
+  | WaitForAction
   | MessageAction
   | CompleteAction
   | HighlightAction
@@ -100,11 +184,35 @@ export type ConversationAction =
   | SelectDropdownAction
   | RemoveClutterAction
   | RestoreClutterAction
+  | ToggleCheckboxAction
+  | ChooseRadioAction
+  | SetDateAction
+  | ChooseOptionAction
+  | PressKeyAction
+  | NavigateBackAction
+  | NavigateToAction
+  | ReloadAction
+  | CaptureScreenshotAction
+
+// One hop from a document into a nested root: the selector of the iframe or shadow host to enter
+export interface ScopeStep {
+  type: "frame" | "shadow"
+  host: string
+}
+
+// Distilled DOM types (from dom-distiller.ts)
+export interface ElementBounds {
+  x: number // Relative to the top-level viewport, in CSS pixels
+  y: number
+  width: number
+  height: number
+}
 
-// Distilled DOM types (from page-actions.ts)
 export interface DOMElement {
   index: number
-  selector: string
+  ref: string // Stable reference (data-ss-ref) for this page; preferred over selector in actions
+  selector: string // Unique within the element's own document or shadow root
+  scope?: ScopeStep[] // Set when the element is inside a same-origin iframe or open shadow root
   tag: string
   type?: string
   role?: string
@@ -117,6 +225,8 @@ export interface DOMElement {
   ariaLabel?: string
   isVisible: boolean
   isInteractive: boolean
+  inViewport: boolean // On screen at capture time
+  bounds: ElementBounds
   options?: string[]
 }
 
@@ -135,15 +245,87 @@ export interface DistilledDOM {
     buttons: number
     inputs: number
     images: number
+    // Present when a budgeted distillation had to leave things out
+    truncated?: {
+      omittedElements: number
+      omittedInteractiveElements: number
+      omittedTextChars: number
+    }
   }
   elements: DOMElement[]
 }
 
+// Outcome of running one action from the previous response, reported back to the agent
+export interface ActionResult {
+  action_index: number // Position in the previous response's actions array
+  action_type: ActionType
+  success: boolean
+  message: string
+  declined?: boolean // The user said no when asked to approve this step
+}
+
 // API Request/Response types
+// What changed on the page since the previous observation in the same session (from page-delta.ts)
+export interface PageDelta {
+  url: string
+  title: string
+  since: string // Timestamp of the snapshot this is compared against
+  timestamp: string
+  added: DOMElement[]
+  removed: string[] // Refs of elements that are gone from the page
+  omitted: string[] // Refs of elements still on the page but left out of this observation to fit the budget
+  changed: DOMElement[] // Current state of elements whose text, value or attributes changed
+  textAdded: string[]
+  textRemoved: string[]
+  unchangedElements: number
+  truncated?: DistilledDOM["summary"]["truncated"] // What this observation's budget left out, as in a full snapshot
+}
+
+// Accessibility tree types (from accessibility-snapshot.ts)
+export interface AccessibilityStates {
+  checked?: boolean | "mixed"
+  expanded?: boolean
+  selected?: boolean
+  pressed?: boolean
+  disabled?: boolean
+  required?: boolean
+  readonly?: boolean
+  invalid?: boolean
+  value?: string
+}
+
+export interface AccessibilityNode {
+  ref: string // Same data-ss-ref as the distilled DOM, usable as element_ref
+  role: string // Explicit ARIA role or the tag's implicit role
+  name: string // Accessible name, as a screen reader would announce it
+  level?: number // Heading level
+  states?: AccessibilityStates
+  landmarks?: string[] // Enclosing landmarks, outermost first
+  scope?: ScopeStep[]
+}
+
+export interface AccessibilitySnapshot {
+  url: string
+  timestamp: string
+  nodes: AccessibilityNode[] // Flat list in document order
+  truncated: boolean
+}
+
+// Which part of the page a screenshot shows
+export type ScreenshotMode = "viewport" | "full_page" | "element"
+
+export interface ScreenshotTarget extends ElementTargetFields {
+  mode: ScreenshotMode
+  selector?: string // With mode "element"
+}
+
 export interface PageState {
   url: string
   distilledDOM: DistilledDOM | null  // Structured page content
+  accessibilityTree?: AccessibilitySnapshot | null // Roles, names and states, including custom ARIA widgets
+  page_delta?: PageDelta | null // Set instead of distilledDOM when only the changes since the last observation are sent
   screenshot: string
+  screenshot_mode?: ScreenshotMode // Defaults to the visible area
 }
 
 export interface ConversationRequest {
@@ -155,6 +337,7 @@ export interface ConversationRequest {
     role: "user" | "assistant"
     content: string
   }>
+  action_results?: ActionResult[] // Results of the actions executed since the last request
 }
 
 export interface ConversationResponse {
@@ -174,6 +357,13 @@ export interface ChatMessage {
   timestamp: Date
   actions?: ConversationAction[]
   isLoading?: boolean
+  approval?: StepApproval
+}
+
+// A step the assistant wants to take in "ask before each step" mode
+export interface StepApproval {
+  action: ConversationAction
+  status: "pending" | "approved" | "declined"
 }
 
 export interface ChatState {
@@ -181,6 +371,8 @@ export interface ChatState {
   sessionId: string | null
   isProcessing: boolean
   isComplete: boolean
+  isCancelled: boolean // User stopped the running task
+  tabId: number | null // Tab the conversation works in, bound when its first task starts
 }
 
 // Conversation History API types